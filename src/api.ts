@@ -0,0 +1,78 @@
+import { ProjectService } from './services/project.service';
+import { ScriptService } from './services/script.service';
+import { ScriptExecutionService } from './services/script-execution.service';
+import { RunScriptArgs } from './types';
+
+/**
+ * A project as seen by other extensions.
+ */
+export interface ProDashProject {
+  name: string;
+  path: string;
+  group?: string;
+  description?: string;
+  isActive: boolean;
+}
+
+/**
+ * A script as seen by other extensions.
+ */
+export interface ProDashScript {
+  name: string;
+  project: string;
+  group?: string;
+  description?: string;
+  isGlobal: boolean;
+  inputs: string[];
+}
+
+/**
+ * The API returned by `activate()`, available to other extensions through
+ * `vscode.extensions.getExtension(...).exports`.
+ */
+export interface ProDashApi {
+  /** Returns all projects of the dashboard. */
+  getProjects(): ProDashProject[];
+  /**
+   * Returns the visible scripts of a project, including the global scripts.
+   * @param project The name or path of the project; the current project if omitted.
+   */
+  getScripts(project?: string): ProDashScript[];
+  /**
+   * Runs a script by name. Inputs without a value in `args` are prompted for.
+   * @throws If the project or the script is not found, or if the run fails.
+   */
+  runScript(args: RunScriptArgs): Promise<void>;
+}
+
+/**
+ * Creates the public API of the extension.
+ */
+export function createApi(): ProDashApi {
+  return {
+    getProjects: () => ProjectService.instance.getProjects().map(p => ({
+      name: p.name,
+      path: p.path,
+      group: p.group,
+      description: p.description,
+      isActive: !!p.isActive,
+    })),
+    getScripts: (projectNameOrPath?: string) => {
+      const project = projectNameOrPath ? ProjectService.instance.findProject(projectNameOrPath) : ProjectService.instance.currentProject;
+      if (!project) {
+        return [];
+      }
+      return ScriptService.instance.getScripts(project.path)
+        .filter(s => !s.hidden && !s.name.startsWith('_') && ScriptExecutionService.instance.appliesTo(s, project))
+        .map(s => ({
+          name: s.name,
+          project: project.name,
+          group: s.group,
+          description: s.description,
+          isGlobal: !!s.isGlobal,
+          inputs: (s.inputs || []).map(i => i.name),
+        }));
+    },
+    runScript: (args: RunScriptArgs) => ScriptExecutionService.instance.runByName(args),
+  };
+}
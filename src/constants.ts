@@ -1,3 +1,5 @@
+import { ScriptEvent } from './types';
+
 export const proDashFolderName = '.prodash';
 export const templatesSubFolderName = 'templates';
 export const projectsJsoncFileName = 'projects.jsonc';
@@ -5,3 +7,30 @@ export const scriptsJsoncFileName = 'scripts.jsonc';
 export const projectDescriptionFileName = 'description.$$$';
 export const projectLongDescriptionFileName = 'longdescription.$$$';
 export const projectFullDescriptionFileName = 'fulldescription.$$$';
+export const scriptEvents: ScriptEvent[] = ['ON_ACTIVATE', 'ON_SAVE', 'ON_FILE_CHANGE', 'ON_DEACTIVATE', 'ON_WORKSPACE_CLOSE', 'ON_INTERVAL'];
+export const scriptCommandProperties = ['script', 'windows', 'linux', 'darwin'] as const;
+
+/**
+ * The built-in variables of scripts, with a short description.
+ * Variables with an argument are used as `{{NAME:argument}}`.
+ */
+export const scriptVariables: Record<string, { description: string; hasArgument?: boolean }> = {
+  PROJECT_PATH: { description: 'The folder of the project.' },
+  PROJECT_NAME: { description: 'The name of the project.' },
+  PROJECT_GROUP: { description: 'The group of the project.' },
+  PRODASH_PATH: { description: 'The `.prodash` folder of the project.' },
+  GLOBALCONFIG_PATH: { description: 'The folder of the global configuration (`~/.prodash`).' },
+  DESCRIPTION_FILE: { description: 'The file whose content is shown next to the project name.' },
+  LONGDESCRIPTION_FILE: { description: 'The file whose content is shown as the tooltip of the project.' },
+  FULLDESCRIPTION_FILE: { description: 'The file with the full description of the project.' },
+  FILE: { description: 'The file of the active editor. Fails the run if no file is open.' },
+  FILE_DIR: { description: 'The folder of the file of the active editor. Fails the run if no file is open.' },
+  SELECTED_TEXT: { description: 'The selected text of the active editor, inserted as is. Fails the run if no file is open.' },
+  LINE: { description: 'The line of the cursor in the active editor, starting at 1. Fails the run if no file is open.' },
+  WORKSPACE_FOLDER: { description: 'The workspace folder of the active editor, or else the first workspace folder.' },
+  GIT_BRANCH: { description: 'The current branch of the git repository of the project, or the commit if no branch is checked out.' },
+  DATE: { description: 'The current date as `YYYY-MM-DD`.' },
+  INPUT: { description: 'The value entered for an input of the script: `{{INPUT:name}}`.', hasArgument: true },
+  ENV: { description: 'An environment variable of the run: `{{ENV:NAME}}`.', hasArgument: true },
+  RUN_SCRIPT: { description: 'Runs another script in place of this line: `{{RUN_SCRIPT:name}}`.', hasArgument: true },
+};
@@ -0,0 +1,63 @@
+/**
+ * Thrown when the user cancels a script run, e.g. by dismissing an input prompt.
+ * Callers should treat it as a normal outcome rather than a failure.
+ */
+export class ScriptCancelledError extends Error {
+  constructor(scriptName: string) {
+    super(`Execution of script "${scriptName}" was cancelled.`);
+    this.name = 'ScriptCancelledError';
+  }
+}
+
+/**
+ * Thrown when a command of a script exits with a non-zero (or unknown) exit code.
+ */
+export class CommandFailedError extends Error {
+  constructor(public readonly command: string, public readonly exitCode: number | undefined) {
+    super(`Command "${command}" exited with code ${exitCode ?? 'undefined'}.`);
+    this.name = 'CommandFailedError';
+  }
+}
+
+/**
+ * Thrown when a script that is run by name, or its project, cannot be found.
+ */
+export class ScriptNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a `{{...}}` variable of a script is not defined, has no value or refers to itself.
+ * The run fails before any command is executed.
+ */
+export class VariableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VariableError';
+  }
+}
+
+/**
+ * Thrown when an input of a script is declared wrongly, like with a `pattern` that is not a
+ * valid regular expression. The run fails before anything is prompted for.
+ */
+export class ScriptInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScriptInputError';
+  }
+}
+
+/**
+ * Thrown when the `when` expression of a script or a step has a syntax error.
+ * The offset and length locate the error within the expression.
+ */
+export class WhenExpressionError extends Error {
+  constructor(message: string, public readonly offset: number, public readonly length: number) {
+    super(message);
+    this.name = 'WhenExpressionError';
+  }
+}
@@ -5,9 +5,28 @@ import * as os from 'os';
 import { LoggingService } from './services/logging.service';
 import { FileWatcherService } from './services/file-watcher.service';
 import { ProDashTreeProvider, ProjectTreeItem, ScriptTreeItem } from './ui/pro-dash-tree-provider';
+import { ProDashDragAndDropController } from './ui/pro-dash-drag-and-drop-controller';
+import { GitStatusService } from './services/git-status.service';
 import { ScriptExecutionService } from './services/script-execution.service';
-import { showTextFileEditor } from './utils/file-utils';
+import { createTextFileIfNotExist, showTextFileEditor } from './utils/file-utils';
 import { ProjectService } from './services/project.service';
+import { ScriptService } from './services/script.service';
+import { StateService } from './services/state.service';
+import { ProcessService } from './services/process.service';
+import { RunHistoryService } from './services/run-history.service';
+import { showRunHistoryQuickPick } from './ui/run-history-quick-pick';
+import { DiagnosticsService } from './services/diagnostics.service';
+import { ScriptsEditorProvider } from './ui/scripts-editor-provider';
+import { showRunScriptQuickPick } from './ui/run-script-quick-pick';
+import { openProject, showRecentProjectsQuickPick } from './ui/recent-projects-quick-pick';
+import { FavoritesService } from './services/favorites.service';
+import { addProject, moveProject, registerProject, removeProject, renameProject, selectCurrentProject } from './ui/project-management';
+import { ProDashStatusBar } from './ui/pro-dash-status-bar';
+import { ProjectDashboardPanel } from './ui/project-dashboard-panel';
+import { KeybindingService } from './services/keybinding.service';
+import { ScriptNotFoundError } from './errors';
+import { createApi, ProDashApi } from './api';
+import { Project, RunScriptArgs } from './types';
 import { proDashFolderName, projectsJsoncFileName, scriptsJsoncFileName, templatesSubFolderName } from './constants';
 
 /**
@@ -15,8 +34,10 @@ import { proDashFolderName, projectsJsoncFileName, scriptsJsoncFileName, templat
  * Registers tree data providers, commands, and initializes services.
  * @param context The VS Code extension context
  */
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<ProDashApi> {
 
+  StateService.instance.init(context);
+  await RunHistoryService.instance.markInterruptedRuns();
   copyTemplates(context, false);
 
   // Create the Tree Provider
@@ -24,30 +45,186 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Register the Tree View
   const treeView = vscode.window.createTreeView('prodash.projectsView', {
-    treeDataProvider: proDashTreeProvider
+    treeDataProvider: proDashTreeProvider,
+    dragAndDropController: new ProDashDragAndDropController(),
+    canSelectMany: true,
   });
 
   FileWatcherService.instance.init(proDashTreeProvider);
   context.subscriptions.push(treeView);
 
+  KeybindingService.instance.update();
+  context.subscriptions.push(new ProDashStatusBar(proDashTreeProvider.onDidChangeTreeData));
+
+  // The current project can follow the active editor; its keybinding slots follow the current project
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor(editor => ProjectService.instance.followActiveEditor(editor?.document.uri)),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('prodash.currentProjectFollowsActiveEditor')) {
+        ProjectService.instance.followActiveEditor(vscode.window.activeTextEditor?.document.uri);
+      }
+    }),
+    ProjectService.instance.onDidChangeCurrentProject(() => KeybindingService.instance.update()),
+  );
+
+  // The projects of the opened workspace count as recently opened
+  ProjectService.instance.getProjects()
+    .filter(p => p.isActive)
+    .forEach(p => FavoritesService.instance.recordOpened(p));
+
+  // Report the problems of the configuration files, also while they are being edited
+  DiagnosticsService.instance.validateAll();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument(e => DiagnosticsService.instance.validateDocument(e.document)),
+    vscode.workspace.onDidOpenTextDocument(document => DiagnosticsService.instance.validateDocument(document)),
+  );
+  ScriptsEditorProvider.register(context);
+
   // Register commands
   const refreshCommand = vscode.commands.registerCommand('prodash.refresh', () => {
-    proDashTreeProvider.refresh();
+    GitStatusService.instance.clear();
+    proDashTreeProvider.refresh(true);
   });
   context.subscriptions.push(refreshCommand);
 
-  const runScriptCommand = vscode.commands.registerCommand('prodash.runScript', (item: ScriptTreeItem) => {
-    if (item && item.script && item.project) {
-      ScriptExecutionService.instance.execute(item.script, item.project);
+  const updateFilterMessage = () => {
+    treeView.message = proDashTreeProvider.onlyChangedProjects
+      ? 'Showing only projects with uncommitted changes or unpushed commits.'
+      : undefined;
+  };
+  updateFilterMessage();
+
+  const showOnlyChangedProjectsCommand = vscode.commands.registerCommand('prodash.showOnlyChangedProjects', async () => {
+    await proDashTreeProvider.setOnlyChangedProjects(true);
+    updateFilterMessage();
+  });
+  context.subscriptions.push(showOnlyChangedProjectsCommand);
+
+  const showAllProjectsCommand = vscode.commands.registerCommand('prodash.showAllProjects', async () => {
+    await proDashTreeProvider.setOnlyChangedProjects(false);
+    updateFilterMessage();
+  });
+  context.subscriptions.push(showAllProjectsCommand);
+
+  // Runs the script of a tree item, or a script given by name, e.g. from a keybinding
+  const runScriptCommand = vscode.commands.registerCommand('prodash.runScript', (item: ScriptTreeItem | RunScriptArgs) => {
+    if (item instanceof ScriptTreeItem) {
+      ScriptExecutionService.instance.execute(item.script, item.project).catch(() => { /* Already reported by execute */ });
+    } else if (item?.script) {
+      runScriptByName(item);
+    } else {
+      showRunScriptQuickPick();
     }
   });
   context.subscriptions.push(runScriptCommand);
 
-  const openProjectCommand = vscode.commands.registerCommand('prodash.openFolder', (item: ProjectTreeItem) => {
-    vscode.commands.executeCommand('vscode.openFolder', item.resourceUri, false);
+  const runKeybindingScriptCommand = vscode.commands.registerCommand('prodash.runKeybindingScript', (args: { slot: number }) => {
+    const script = KeybindingService.instance.getScript(args?.slot);
+    const project = ProjectService.instance.currentProject;
+    if (script && project) {
+      ScriptExecutionService.instance.execute(script, project).catch(() => { /* Already reported by execute */ });
+    } else {
+      vscode.window.showInformationMessage(`ProDash: No script of the current project has "keybinding": ${args?.slot}.`);
+    }
+  });
+  context.subscriptions.push(runKeybindingScriptCommand);
+
+  const runScriptQuickPickCommand = vscode.commands.registerCommand('prodash.runScriptQuickPick', (project?: Project) => showRunScriptQuickPick(project));
+  context.subscriptions.push(runScriptQuickPickCommand);
+
+  // Stops the script of a tree item, or a script given by name like for prodash.runScript
+  const stopScriptCommand = vscode.commands.registerCommand('prodash.stopScript', (item: ScriptTreeItem | RunScriptArgs) => {
+    if (item instanceof ScriptTreeItem) {
+      ScriptExecutionService.instance.stop(item.script, item.project);
+    } else if (item?.script) {
+      try {
+        const { script, project } = ScriptExecutionService.instance.findByName(item);
+        ScriptExecutionService.instance.stop(script, project);
+      } catch (error) {
+        vscode.window.showErrorMessage(`ProDash: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
   });
+  context.subscriptions.push(stopScriptCommand);
+
+  const showRunHistoryCommand = vscode.commands.registerCommand('prodash.showRunHistory', () => showRunHistoryQuickPick());
+  context.subscriptions.push(showRunHistoryCommand);
+
+  const rerunLastCommand = vscode.commands.registerCommand('prodash.rerunLast', () => {
+    const lastRun = RunHistoryService.instance.getLastRun();
+    if (lastRun) {
+      ScriptExecutionService.instance.rerun(lastRun);
+    } else {
+      vscode.window.showInformationMessage('ProDash: No scripts have been run yet.');
+    }
+  });
+  context.subscriptions.push(rerunLastCommand);
+
+  const openProjectCommand = vscode.commands.registerCommand('prodash.openFolder', (item: ProjectTreeItem) => openProject(item.project));
   context.subscriptions.push(openProjectCommand);
 
+  const openRecentProjectCommand = vscode.commands.registerCommand('prodash.openRecentProject', () => showRecentProjectsQuickPick());
+  context.subscriptions.push(openRecentProjectCommand);
+
+  const pinProjectCommand = vscode.commands.registerCommand('prodash.pinProject', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      FavoritesService.instance.addFavorite(project);
+    }
+  });
+  context.subscriptions.push(pinProjectCommand);
+
+  const unpinProjectCommand = vscode.commands.registerCommand('prodash.unpinProject', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      FavoritesService.instance.removeFavorite(project);
+    }
+  });
+  context.subscriptions.push(unpinProjectCommand);
+
+  const addProjectCommand = vscode.commands.registerCommand('prodash.addProject', () => addProject());
+  context.subscriptions.push(addProjectCommand);
+
+  const registerProjectCommand = vscode.commands.registerCommand('prodash.registerProject', (item?: ProjectTreeItem) => registerProject(item?.project));
+  context.subscriptions.push(registerProjectCommand);
+
+  const openProjectDashboardCommand = vscode.commands.registerCommand('prodash.openProjectDashboard', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      ProjectDashboardPanel.show(project);
+    } else {
+      vscode.window.showInformationMessage('ProDash: No project is open.');
+    }
+  });
+  context.subscriptions.push(openProjectDashboardCommand);
+
+  const selectCurrentProjectCommand = vscode.commands.registerCommand('prodash.selectCurrentProject', (item?: ProjectTreeItem) => selectCurrentProject(item?.project));
+  context.subscriptions.push(selectCurrentProjectCommand);
+
+  const renameProjectCommand = vscode.commands.registerCommand('prodash.renameProject', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      renameProject(project);
+    }
+  });
+  context.subscriptions.push(renameProjectCommand);
+
+  const moveProjectCommand = vscode.commands.registerCommand('prodash.moveProject', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      moveProject(project);
+    }
+  });
+  context.subscriptions.push(moveProjectCommand);
+
+  const removeProjectCommand = vscode.commands.registerCommand('prodash.removeProject', (item?: ProjectTreeItem) => {
+    const project = item?.project ?? ProjectService.instance.currentProject;
+    if (project) {
+      removeProject(project);
+    }
+  });
+  context.subscriptions.push(removeProjectCommand);
+
   const editScriptsCommand = vscode.commands.registerCommand('prodash.editScriptsJson',
     () => {
       LoggingService.instance.logInfo(`globalConfigurationPath: ${ProjectService.instance.globalConfigurationPath}`);
@@ -55,6 +232,14 @@ export async function activate(context: vscode.ExtensionContext) {
     });
   context.subscriptions.push(editScriptsCommand);
 
+  const editGlobalScriptsCommand = vscode.commands.registerCommand('prodash.editGlobalScriptsJson',
+    () => {
+      const globalScriptsFile = ScriptService.instance.globalScriptsFileNameAndPath;
+      createTextFileIfNotExist(globalScriptsFile, '{\n  // Scripts defined here are available in every project.\n}\n');
+      showTextFileEditor(globalScriptsFile);
+    });
+  context.subscriptions.push(editGlobalScriptsCommand);
+
   const editProjectsCommand = vscode.commands.registerCommand('prodash.editProjectsJson',
     () => {
       LoggingService.instance.logInfo(`globalConfigurationPath: ${ProjectService.instance.globalConfigurationPath}`);
@@ -87,6 +272,24 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   });
   context.subscriptions.push(openGlobalTemplatesFolderCommand);
+
+  return createApi();
+}
+
+/**
+ * Runs a script by name and reports a script or project that cannot be found.
+ * Failed runs are already reported by the execution service.
+ * @param args The arguments of the `prodash.runScript` command.
+ */
+async function runScriptByName(args: RunScriptArgs): Promise<void> {
+  try {
+    await ScriptExecutionService.instance.runByName(args);
+  } catch (error) {
+    if (error instanceof ScriptNotFoundError) {
+      LoggingService.instance.logError(error.message);
+      vscode.window.showErrorMessage(`ProDash: ${error.message}`);
+    }
+  }
 }
 
 function copyTemplates(context: vscode.ExtensionContext, force: boolean) {
@@ -124,8 +327,13 @@ function copyTemplates(context: vscode.ExtensionContext, force: boolean) {
 
 /**
  * Called when the extension is deactivated.
+ * Runs the ON_DEACTIVATE scripts before the services are disposed, for at most 4 seconds.
  */
-export function deactivate() {
+export async function deactivate() {
   FileWatcherService.instance.dispose();
+  await FileWatcherService.instance.runDeactivationScripts();
+  ProcessService.instance.dispose();
+  GitStatusService.instance.dispose();
+  DiagnosticsService.instance.dispose();
   LoggingService.instance.dispose();
 }
\ No newline at end of file
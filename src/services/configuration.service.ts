@@ -9,6 +9,7 @@ import { readFileContents } from '../utils/file-utils';
  */
 export class ConfigurationService {
   private static _instance: ConfigurationService;
+  private errors: Map<string, string> = new Map();
 
   private constructor() { }
 
@@ -30,6 +31,7 @@ export class ConfigurationService {
    *          does not exist or contains errors.
    */
   public loadConfiguration<T>(filePathAndName: string): T | null {
+    this.errors.delete(filePathAndName);
     try {
       const fileContent = readFileContents(filePathAndName);
       if (!fileContent) {
@@ -43,9 +45,20 @@ export class ConfigurationService {
       }
       return data as T;
     } catch (error: any) {
-      LoggingService.instance.logError(`Failed to read configuration file '${filePathAndName}': $(error.message)`, error);
-      return null; // Is not an error - the configuration file does not exist
+      LoggingService.instance.logError(`Failed to read configuration file '${filePathAndName}': ${error.message}`, error);
+      this.errors.set(filePathAndName, error.message);
+      return null;
     }
   }
 
+  /**
+   * Returns the error that prevented a configuration file from being loaded the last time,
+   * or undefined if it was loaded successfully or does not exist.
+   * The individual problems of the file are reported as diagnostics by the DiagnosticsService.
+   * @param filePathAndName The absolute path to the configuration file.
+   */
+  public getError(filePathAndName: string): string | undefined {
+    return this.errors.get(filePathAndName);
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,284 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import { ScriptEvent } from '../types';
+import { ProjectService } from './project.service';
+import { ScriptService } from './script.service';
+import { TerminalService } from './terminal.service';
+import { LoggingService } from './logging.service';
+import { getCommandNodes, getEntryNodes, getStepNodes, getStringNodes } from '../utils/jsonc-utils';
+import { parseWhenExpression } from '../utils/when-expression';
+import { WhenExpressionError } from '../errors';
+import { expandHomePath, normalizePath } from '../utils/file-utils';
+import { proDashFolderName, projectsJsoncFileName, scriptCommandProperties, scriptEvents, scriptsJsoncFileName, scriptVariables } from '../constants';
+
+/**
+ * A problem found in a configuration file, located at a node or at a part of a string node.
+ */
+interface Problem {
+  node: jsonc.Node;
+  /** The offset of the problem within the node. */
+  start?: number;
+  length?: number;
+  message: string;
+  severity: vscode.DiagnosticSeverity;
+}
+
+/**
+ * A singleton service that reports the problems of the `projects.jsonc` and `scripts.jsonc`
+ * files in the Problems panel: syntax errors, and semantic errors like unknown terminals,
+ * unknown events, undefined variables and inputs, invalid input patterns, calls of missing scripts and
+ * duplicate script names or keybindings.
+ * The structure of the files is validated by the JSON schemas contributed in package.json.
+ */
+export class DiagnosticsService {
+  private static _instance: DiagnosticsService;
+  private diagnostics: vscode.DiagnosticCollection;
+
+  private constructor() {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('prodash');
+  }
+
+  /**
+   * Gets the singleton instance of the DiagnosticsService.
+   */
+  public static get instance(): DiagnosticsService {
+    if (!DiagnosticsService._instance) {
+      DiagnosticsService._instance = new DiagnosticsService();
+    }
+    return DiagnosticsService._instance;
+  }
+
+  /**
+   * Validates the global configuration files and the `scripts.jsonc` files of all projects.
+   */
+  public validateAll(): void {
+    this.diagnostics.clear();
+    const files = new Set([
+      ProjectService.instance.globalConfigurationFileNameAndPath,
+      ScriptService.instance.globalScriptsFileNameAndPath,
+      ...ProjectService.instance.getProjects().map(p => ScriptService.instance.getScriptsFile(p.path)),
+    ]);
+    files.forEach(f => this.validateFile(f));
+  }
+
+  /**
+   * Validates the unsaved content of a document, if it is a ProDash configuration file.
+   * @param document The document being edited.
+   */
+  public validateDocument(document: vscode.TextDocument): void {
+    if (document.uri.scheme === 'file' && this.isConfigurationFile(document.uri.fsPath)) {
+      this.validateFile(document.uri.fsPath, document.getText());
+    }
+  }
+
+  /**
+   * Validates a configuration file and publishes its problems.
+   * @param filePath The absolute path to the `projects.jsonc` or `scripts.jsonc` file.
+   * @param text The content to validate; read from disk if omitted.
+   */
+  public validateFile(filePath: string, text?: string): void {
+    const uri = vscode.Uri.file(filePath);
+    if (text === undefined) {
+      if (!fs.existsSync(filePath)) {
+        this.diagnostics.delete(uri);
+        return;
+      }
+      try {
+        text = fs.readFileSync(filePath, 'utf8');
+      } catch (error) {
+        LoggingService.instance.logWarning(`Could not read ${filePath} for validation: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+
+    const lineStarts = this.getLineStarts(text);
+    const toRange = (offset: number, length: number) =>
+      new vscode.Range(this.positionAt(lineStarts, offset), this.positionAt(lineStarts, offset + length));
+
+    const errors: jsonc.ParseError[] = [];
+    const root = jsonc.parseTree(text, errors);
+    const problems = errors.map(e => new vscode.Diagnostic(
+      toRange(e.offset, e.length),
+      `Syntax error: ${jsonc.printParseErrorCode(e.error)}. The file is ignored until it is fixed.`,
+      vscode.DiagnosticSeverity.Error));
+
+    if (root) {
+      const semanticProblems = path.basename(filePath) === projectsJsoncFileName
+        ? this.validateProjects(root)
+        : this.validateScripts(root, filePath);
+      problems.push(...semanticProblems.map(p => new vscode.Diagnostic(toRange(p.node.offset + (p.start ?? 0), p.length ?? p.node.length), p.message, p.severity)));
+    }
+
+    problems.forEach(p => p.source = 'ProDash');
+    this.diagnostics.set(uri, problems);
+  }
+
+  private validateProjects(root: jsonc.Node): Problem[] {
+    const problems: Problem[] = [];
+    for (const projectNode of getEntryNodes(root)) {
+      const pathNode = jsonc.findNodeAtLocation(projectNode, ['path']);
+      if (typeof pathNode?.value === 'string' && !fs.existsSync(pathNode.value)) {
+        problems.push({ node: pathNode, message: `The folder "${pathNode.value}" does not exist.`, severity: vscode.DiagnosticSeverity.Warning });
+      }
+    }
+    for (const scanRootNode of jsonc.findNodeAtLocation(root, ['_scanRoots'])?.children || []) {
+      const pathNode = jsonc.findNodeAtLocation(scanRootNode, ['path']);
+      if (typeof pathNode?.value === 'string' && !fs.existsSync(expandHomePath(pathNode.value))) {
+        problems.push({ node: pathNode, message: `The scan root "${pathNode.value}" does not exist.`, severity: vscode.DiagnosticSeverity.Warning });
+      }
+    }
+    return problems;
+  }
+
+  private validateScripts(root: jsonc.Node, filePath: string): Problem[] {
+    const problems: Problem[] = [];
+    const scriptNodes = getEntryNodes(root);
+    const shellProfileNames = TerminalService.instance.getShellProfileNames();
+    const isGlobal = filePath === ScriptService.instance.globalScriptsFileNameAndPath;
+
+    // Global scripts may use the variables of any project, and project scripts those of their project
+    const projects = ProjectService.instance.getProjects();
+    const variableProjects = isGlobal ? projects : projects.filter(p => normalizePath(ScriptService.instance.getScriptsFile(p.path)) === normalizePath(filePath));
+    const knownVariables = new Set([
+      ...Object.keys(scriptVariables),
+      ...Object.keys(ProjectService.instance.variables),
+      ...variableProjects.flatMap(p => Object.keys(p.variables || {})),
+    ]);
+
+    // Global scripts may call the scripts of any project, and project scripts the global ones
+    const knownScriptNames = new Set(scriptNodes
+      .map(n => jsonc.findNodeAtLocation(n, ['name'])?.value)
+      .filter((name): name is string => typeof name === 'string'));
+    const otherScripts = isGlobal
+      ? ProjectService.instance.getProjects().flatMap(p => ScriptService.instance.getScripts(p.path))
+      : ScriptService.instance.getGlobalScripts();
+    otherScripts.forEach(s => knownScriptNames.add(s.name));
+
+    const seenNames = new Set<string>();
+    const seenKeybindings = new Set<number>();
+    for (const scriptNode of scriptNodes) {
+      const nameNode = jsonc.findNodeAtLocation(scriptNode, ['name']);
+      if (typeof nameNode?.value === 'string') {
+        if (seenNames.has(nameNode.value)) {
+          problems.push({ node: nameNode, message: `Duplicate script name "${nameNode.value}". Only the first script with this name can be run.`, severity: vscode.DiagnosticSeverity.Error });
+        }
+        seenNames.add(nameNode.value);
+      }
+
+      const keybindingNode = jsonc.findNodeAtLocation(scriptNode, ['keybinding']);
+      if (typeof keybindingNode?.value === 'number') {
+        if (seenKeybindings.has(keybindingNode.value)) {
+          problems.push({ node: keybindingNode, message: `Keybinding ${keybindingNode.value} is already used by another script. Only the first script with this keybinding is run.`, severity: vscode.DiagnosticSeverity.Warning });
+        }
+        seenKeybindings.add(keybindingNode.value);
+      }
+
+      const terminalNode = jsonc.findNodeAtLocation(scriptNode, ['terminal']);
+      const terminalNodes = terminalNode?.type === 'object' ? (terminalNode.children || []).map(p => p.children?.[1]) : [terminalNode];
+      for (const node of terminalNodes) {
+        if (typeof node?.value === 'string' && !shellProfileNames.includes(node.value)) {
+          problems.push({ node, message: `Unknown terminal "${node.value}". Use one of ${shellProfileNames.join(', ')}, or define it in the _shellProfiles section of projects.jsonc.`, severity: vscode.DiagnosticSeverity.Error });
+        }
+      }
+
+      const eventNode = jsonc.findNodeAtLocation(scriptNode, ['event']);
+      if (typeof eventNode?.value === 'string' && !scriptEvents.includes(eventNode.value as ScriptEvent)) {
+        problems.push({ node: eventNode, message: `Unknown event "${eventNode.value}". Use one of ${scriptEvents.join(', ')}.`, severity: vscode.DiagnosticSeverity.Error });
+      }
+
+      for (const property of scriptCommandProperties) {
+        for (const node of getCommandNodes(scriptNode, property)) {
+          for (const match of node.value.matchAll(/\{\{RUN_SCRIPT:([^}]+)\}\}/g)) {
+            if (!knownScriptNames.has(match[1])) {
+              // The offset within the string literal is exact unless escape sequences precede the match
+              problems.push({ node, start: 1 + match.index!, length: match[0].length, message: `Script "${match[1]}" not found.`, severity: vscode.DiagnosticSeverity.Error });
+            }
+          }
+        }
+      }
+
+      const inputsNode = jsonc.findNodeAtLocation(scriptNode, ['inputs']);
+      const inputNodes = (inputsNode?.children || []).filter(n => n.type === 'object');
+      const inputNames = new Set(inputNodes.map(n => jsonc.findNodeAtLocation(n, ['name'])?.value));
+      const variablesNode = jsonc.findNodeAtLocation(scriptNode, ['variables']);
+      const scriptVariableNames = new Set((variablesNode?.children || []).map(p => p.children?.[0].value));
+      const variableValueNodes = (variablesNode?.children || []).map(p => p.children?.[1]).filter((n): n is jsonc.Node => n?.type === 'string');
+      for (const node of [...scriptCommandProperties.flatMap(p => getCommandNodes(scriptNode, p)), ...variableValueNodes]) {
+        for (const match of node.value.matchAll(/\{\{([A-Za-z_][A-Za-z0-9_]*)(?::([^}]+))?\}\}/g)) {
+          if (!knownVariables.has(match[1]) && !scriptVariableNames.has(match[1])) {
+            problems.push({ node, start: 1 + match.index!, length: match[0].length, message: `Variable "${match[1]}" is not defined. The script fails when it runs.`, severity: vscode.DiagnosticSeverity.Error });
+          } else if (match[1] === 'INPUT' && !inputNames.has(match[2])) {
+            const message = match[2] === undefined
+              ? 'Variable "{{INPUT}}" needs the name of an input, like {{INPUT:name}}.'
+              : `Input "${match[2]}" is not declared in the "inputs" of the script.`;
+            problems.push({ node, start: 1 + match.index!, length: match[0].length, message: `${message} The script fails when it runs.`, severity: vscode.DiagnosticSeverity.Error });
+          }
+        }
+      }
+
+      const whenNodes = [scriptNode, ...scriptCommandProperties.flatMap(p => getStepNodes(scriptNode, p))]
+        .map(n => n.type === 'object' ? jsonc.findNodeAtLocation(n, ['when']) : undefined)
+        .filter((n): n is jsonc.Node => n?.type === 'string');
+      for (const node of whenNodes) {
+        try {
+          parseWhenExpression(node.value);
+        } catch (error) {
+          if (error instanceof WhenExpressionError) {
+            problems.push({ node, start: 1 + error.offset, length: error.length, message: `Invalid condition: ${error.message}`, severity: vscode.DiagnosticSeverity.Error });
+          }
+        }
+      }
+
+      const patternNodes = inputNodes
+        .map(n => jsonc.findNodeAtLocation(n, ['pattern']))
+        .filter((n): n is jsonc.Node => n?.type === 'string');
+      for (const node of patternNodes) {
+        try {
+          new RegExp(node.value);
+        } catch (error) {
+          problems.push({ node, message: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}. The script fails when it runs.`, severity: vscode.DiagnosticSeverity.Error });
+        }
+      }
+
+      for (const node of getStringNodes(scriptNode, 'dependsOn')) {
+        if (!knownScriptNames.has(node.value)) {
+          problems.push({ node, message: `Script "${node.value}" not found.`, severity: vscode.DiagnosticSeverity.Error });
+        }
+      }
+    }
+    return problems;
+  }
+
+  private isConfigurationFile(filePath: string): boolean {
+    const fileName = path.basename(filePath);
+    return path.basename(path.dirname(filePath)) === proDashFolderName
+      && (fileName === projectsJsoncFileName || fileName === scriptsJsoncFileName);
+  }
+
+  private getLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    return lineStarts;
+  }
+
+  private positionAt(lineStarts: number[], offset: number): vscode.Position {
+    let line = lineStarts.length - 1;
+    while (line > 0 && lineStarts[line] > offset) {
+      line--;
+    }
+    return new vscode.Position(line, offset - lineStarts[line]);
+  }
+
+  /**
+   * Disposes of the diagnostics collection.
+   */
+  public dispose(): void {
+    this.diagnostics.dispose();
+  }
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { Project } from '../types';
+import { StateService } from './state.service';
+import { ProjectService } from './project.service';
+import { normalizePath } from '../utils/file-utils';
+
+const favoriteProjectsKey = 'prodash.favoriteProjects';
+const recentProjectsKey = 'prodash.recentProjects';
+const maxRecentProjects = 10;
+
+/**
+ * A project that was opened, kept in the global state.
+ */
+interface RecentProject {
+  path: string;
+  openedAt: number;
+}
+
+/**
+ * A singleton service that keeps the favorite (pinned) projects and the recently opened
+ * projects in the extension's global state. Projects are identified by their path, so they
+ * stay favorites when they are renamed or moved to another group.
+ */
+export class FavoritesService {
+  private static _instance: FavoritesService;
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the FavoritesService.
+   */
+  public static get instance(): FavoritesService {
+    if (!FavoritesService._instance) {
+      FavoritesService._instance = new FavoritesService();
+    }
+    return FavoritesService._instance;
+  }
+
+  /**
+   * Returns whether a project is a favorite.
+   * @param project The project.
+   */
+  public isFavorite(project: Project): boolean {
+    return this.getFavoritePaths().includes(normalizePath(project.path));
+  }
+
+  /**
+   * Returns the favorite projects, in the order they were pinned.
+   * Favorites that are no longer in the dashboard are skipped.
+   */
+  public getFavorites(): Project[] {
+    return this.findProjects(this.getFavoritePaths());
+  }
+
+  /**
+   * Pins a project to the favorites.
+   * @param project The project to pin.
+   */
+  public async addFavorite(project: Project): Promise<void> {
+    if (!this.isFavorite(project)) {
+      await this.update(favoriteProjectsKey, [...this.getFavoritePaths(), normalizePath(project.path)]);
+    }
+  }
+
+  /**
+   * Unpins a project from the favorites.
+   * @param project The project to unpin.
+   */
+  public async removeFavorite(project: Project): Promise<void> {
+    await this.update(favoriteProjectsKey, this.getFavoritePaths().filter(p => p !== normalizePath(project.path)));
+  }
+
+  /**
+   * Returns the recently opened projects, the most recent first, with the time they were opened.
+   * Projects that are no longer in the dashboard are skipped.
+   */
+  public getRecentProjects(): { project: Project; openedAt: number }[] {
+    const recentProjects = StateService.instance.getGlobal<RecentProject[]>(recentProjectsKey, []);
+    return recentProjects
+      .map(r => ({ project: this.findProjects([r.path])[0], openedAt: r.openedAt }))
+      .filter(r => !!r.project);
+  }
+
+  /**
+   * Records that a project was opened or became active.
+   * @param project The project.
+   */
+  public async recordOpened(project: Project): Promise<void> {
+    const projectPath = normalizePath(project.path);
+    const recentProjects = StateService.instance.getGlobal<RecentProject[]>(recentProjectsKey, [])
+      .filter(r => r.path !== projectPath);
+    recentProjects.unshift({ path: projectPath, openedAt: Date.now() });
+    await this.update(recentProjectsKey, recentProjects.slice(0, maxRecentProjects));
+  }
+
+  private getFavoritePaths(): string[] {
+    return StateService.instance.getGlobal<string[]>(favoriteProjectsKey, []);
+  }
+
+  private findProjects(paths: string[]): Project[] {
+    const projects = ProjectService.instance.getProjects();
+    return paths
+      .map(p => projects.find(project => normalizePath(project.path) === p))
+      .filter((p): p is Project => !!p);
+  }
+
+  private async update<T>(key: string, value: T): Promise<void> {
+    await StateService.instance.updateGlobal(key, value);
+    this._onDidChange.fire();
+  }
+}
@@ -5,17 +5,33 @@ import * as os from 'os';
 import { LoggingService } from './logging.service';
 import { ProDashTreeProvider } from '../ui/pro-dash-tree-provider';
 import { ProjectService } from './project.service';
+import { ScriptService } from './script.service';
+import { ScriptExecutionService } from './script-execution.service';
+import { Project, Script, ScriptEvent } from '../types';
+import { isParentPathOf } from '../utils/file-utils';
 import { proDashFolderName, projectDescriptionFileName, projectFullDescriptionFileName, projectLongDescriptionFileName, projectsJsoncFileName, scriptsJsoncFileName } from '../constants';
 
+const defaultDebounceMilliseconds = 500;
+// VS Code waits about 5 seconds for an extension to deactivate
+const deactivationTimeoutMilliseconds = 4000;
+
 /**
  * A singleton service for watching file system events for specific files.
  * This service allows registering callbacks for file changes, creations, or deletions.
+ * It also runs the scripts of active projects that are triggered by events
+ * (ON_SAVE, ON_FILE_CHANGE, ON_INTERVAL, ON_WORKSPACE_CLOSE and ON_DEACTIVATE).
  */
 export class FileWatcherService {
   private static _instance: FileWatcherService;
   private watchers: vscode.FileSystemWatcher[] = [];
+  private triggerDisposables: vscode.Disposable[] = [];
+  private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private intervalTimers: Map<string, { timer: NodeJS.Timeout; interval: number; script: Script; project: Project }> = new Map();
   private treeProvider: ProDashTreeProvider | undefined;
   private lastFileContents: Map<string, string> = new Map();
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.Uri>();
+  /** Fired after the projects were reloaded because a watched ProDash file changed. */
+  readonly onDidChangeFile: vscode.Event<vscode.Uri> = this._onDidChangeFile.event;
 
   private constructor() { }
 
@@ -37,7 +53,7 @@ export class FileWatcherService {
    */
   public init(treeProvider: ProDashTreeProvider): void {
     this.treeProvider = treeProvider;
-    this.dispose();
+    this.disposeWatchers();
 
     const contentAwareRefresh = (uri: vscode.Uri) => {
       const filePath = uri.fsPath;
@@ -50,6 +66,7 @@ export class FileWatcherService {
         LoggingService.instance.logWarning(`Could not read file ${filePath} for content check. Refreshing anyway. Error: ${error instanceof Error ? error.message : String(error)}`);
         this.treeProvider?.refresh();
         this.initWatchers(contentAwareRefresh);
+        this._onDidChangeFile.fire(uri);
         return;
       }
 
@@ -70,6 +87,7 @@ export class FileWatcherService {
       this.treeProvider?.refresh();
       // After a refresh, projects might have changed, so re-init watchers
       this.initWatchers(contentAwareRefresh);
+      this._onDidChangeFile.fire(uri);
     };
 
     this.initWatchers(contentAwareRefresh);
@@ -77,11 +95,26 @@ export class FileWatcherService {
   }
 
   private initWatchers(callback: (uri: vscode.Uri) => void): void {
-    this.dispose();
+    this.disposeWatchers();
     //this.lastFileContents.clear();
 
     const globalProjectsPath = path.join(os.homedir(), proDashFolderName, projectsJsoncFileName);
     this.createWatcher(globalProjectsPath, callback);
+    this.createWatcher(ScriptService.instance.globalScriptsFileNameAndPath, callback);
+
+    // Newly cloned or removed repositories in the scan roots change the discovered projects
+    for (const root of ProjectService.instance.scanRoots) {
+      const levels = Array.from({ length: root.depth ?? 2 }, (_, i) => Array(i + 1).fill('*').join('/'));
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root.path, `{${levels.join(',')}}/{.git,${proDashFolderName}}`), false, true, false);
+      const onProjectFolderChange = (uri: vscode.Uri) => {
+        LoggingService.instance.logInfo(`Project folder changed in scan root: ${uri.fsPath}. Refreshing tree.`);
+        this.treeProvider?.refresh(true);
+        this.initWatchers(callback);
+      };
+      watcher.onDidCreate(onProjectFolderChange);
+      watcher.onDidDelete(onProjectFolderChange);
+      this.watchers.push(watcher);
+    }
 
     for (const project of ProjectService.instance.getProjects()) {
       if (project.proDashPath) {
@@ -92,6 +125,157 @@ export class FileWatcherService {
         this.createWatcher(path.join(project.proDashPath, projectFullDescriptionFileName), callback);
       }
     }
+
+    this.initScriptTriggers();
+  }
+
+  /**
+   * Registers the event-triggered scripts of all active projects. The timers of ON_INTERVAL
+   * scripts whose interval did not change keep running, since the triggers are registered
+   * again whenever the configuration changes.
+   */
+  private initScriptTriggers(): void {
+    const triggeredScripts = this.getTriggeredScripts(['ON_SAVE', 'ON_FILE_CHANGE', 'ON_INTERVAL']);
+
+    const saveScripts = triggeredScripts.filter(({ script }) => script.event === 'ON_SAVE');
+    if (saveScripts.length > 0) {
+      this.triggerDisposables.push(vscode.workspace.onDidSaveTextDocument(document => {
+        for (const { script, project } of saveScripts) {
+          const pattern = new vscode.RelativePattern(project.path, script.glob || '**/*');
+          if (vscode.languages.match({ pattern }, document) > 0) {
+            this.triggerScript(script, project, `saved ${document.uri.fsPath}`, script.debounce ?? defaultDebounceMilliseconds);
+          }
+        }
+      }));
+    }
+
+    const intervalKeys = new Set<string>();
+    for (const { script, project } of triggeredScripts) {
+      if (script.event === 'ON_FILE_CHANGE') {
+        if (!script.glob) {
+          LoggingService.instance.logWarning(`Script '${script.name}' of project '${project.name}' has event ON_FILE_CHANGE but no glob. It is not triggered.`);
+          continue;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(project.path, script.glob));
+        const onFileChange = (uri: vscode.Uri) => {
+          // Changes in .prodash are made by scripts themselves and would trigger endless runs
+          if (project.proDashPath && isParentPathOf(project.proDashPath, uri.fsPath)) {
+            return;
+          }
+          this.triggerScript(script, project, `changed ${uri.fsPath}`, script.debounce ?? defaultDebounceMilliseconds);
+        };
+        watcher.onDidChange(onFileChange);
+        watcher.onDidCreate(onFileChange);
+        watcher.onDidDelete(onFileChange);
+        this.triggerDisposables.push(watcher);
+      } else if (script.event === 'ON_INTERVAL') {
+        if (!script.interval || script.interval <= 0) {
+          LoggingService.instance.logWarning(`Script '${script.name}' of project '${project.name}' has event ON_INTERVAL but no positive interval. It is not triggered.`);
+          continue;
+        }
+        const key = ScriptExecutionService.instance.getRunKey(script, project);
+        intervalKeys.add(key);
+        const existing = this.intervalTimers.get(key);
+        if (existing && existing.interval === script.interval) {
+          // The projects and scripts are reloaded objects; the timer runs the current ones
+          existing.script = script;
+          existing.project = project;
+          continue;
+        }
+        if (existing) {
+          clearInterval(existing.timer);
+        }
+        const timer = setInterval(() => {
+          const entry = this.intervalTimers.get(key)!;
+          this.triggerScript(entry.script, entry.project, `interval of ${entry.interval}s`, 0);
+        }, script.interval * 1000);
+        this.intervalTimers.set(key, { timer, interval: script.interval, script, project });
+      }
+    }
+    for (const [key, { timer }] of this.intervalTimers) {
+      if (!intervalKeys.has(key)) {
+        clearInterval(timer);
+        this.intervalTimers.delete(key);
+      }
+    }
+
+    this.triggerDisposables.push(vscode.workspace.onDidChangeWorkspaceFolders(e => {
+      // `isActive` may or may not be updated yet, so it is derived from the folders: a project
+      // closes when a removed folder belonged to it and none of the remaining folders does
+      const removedPaths = e.removed.map(f => f.uri.fsPath);
+      const remainingPaths = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) || [];
+      const closedProjects = ProjectService.instance.getProjects().filter(project =>
+        removedPaths.some(p => isParentPathOf(project.path, p)) && !remainingPaths.some(p => isParentPathOf(project.path, p)));
+      const closeScripts = this.getTriggeredScripts(['ON_WORKSPACE_CLOSE'], closedProjects);
+      for (const { script, project } of closeScripts) {
+        this.triggerScript(script, project, 'workspace folder closed', 0);
+      }
+    }));
+  }
+
+  /**
+   * Runs the ON_DEACTIVATE and ON_WORKSPACE_CLOSE scripts of all active projects, one after
+   * the other. Meant to be called when the extension is deactivated; since terminals are
+   * closed and nobody can answer prompts at that point, the scripts run in background mode
+   * and their inputs take their default values. Inputs without a default are not set, so a
+   * script that uses them fails.
+   * VS Code only waits about 5 seconds for the extension to deactivate, so the scripts are
+   * stopped after 4 seconds altogether, and the scripts that have not run yet are skipped.
+   */
+  public async runDeactivationScripts(): Promise<void> {
+    const tokenSource = new vscode.CancellationTokenSource();
+    const timeout = setTimeout(() => {
+      LoggingService.instance.logWarning(`Stopping the deactivation scripts after ${deactivationTimeoutMilliseconds / 1000} seconds; the remaining ones are skipped.`);
+      tokenSource.cancel();
+    }, deactivationTimeoutMilliseconds);
+    try {
+      for (const { script, project } of this.getTriggeredScripts(['ON_DEACTIVATE', 'ON_WORKSPACE_CLOSE'])) {
+        if (tokenSource.token.isCancellationRequested) {
+          break;
+        }
+        LoggingService.instance.logInfo(`Running ${script.event} script '${script.name}' for project '${project.name}'...`);
+        const inputs = (script.inputs || []).filter(i => i.default !== undefined);
+        const headlessScript: Script = { ...script, mode: 'background', inputs };
+        const inputValues = Object.fromEntries(inputs.map(i => [i.name, String(i.default)]));
+        try {
+          await ScriptExecutionService.instance.execute(headlessScript, project, tokenSource, inputValues);
+        } catch (error) {
+          // Already reported by execute; continue with the next script
+        }
+      }
+    } finally {
+      clearTimeout(timeout);
+      tokenSource.dispose();
+    }
+  }
+
+  /**
+   * Returns the scripts that are triggered by one of the given events.
+   * @param projects The projects whose scripts are returned; the active projects if omitted.
+   */
+  private getTriggeredScripts(events: ScriptEvent[], projects?: Project[]): { script: Script; project: Project }[] {
+    return (projects ?? ProjectService.instance.getProjects().filter(project => project.isActive))
+      .flatMap(project => ScriptService.instance.getScripts(project.path)
+        .filter(script => script.event && events.includes(script.event))
+        .map(script => ({ script, project })));
+  }
+
+  /**
+   * Runs an event-triggered script after a quiet period, so that a burst of events causes
+   * a single run. A trigger is skipped while the script is still running.
+   */
+  private triggerScript(script: Script, project: Project, reason: string, debounceMilliseconds: number): void {
+    const key = ScriptExecutionService.instance.getRunKey(script, project);
+    clearTimeout(this.debounceTimers.get(key));
+    this.debounceTimers.set(key, setTimeout(() => {
+      this.debounceTimers.delete(key);
+      if (ScriptExecutionService.instance.isRunning(script, project)) {
+        LoggingService.instance.logInfo(`Skipping ${script.event} script '${script.name}' (${reason}): it is still running.`);
+        return;
+      }
+      LoggingService.instance.logInfo(`Running ${script.event} script '${script.name}' for project '${project.name}' (${reason})...`);
+      ScriptExecutionService.instance.execute(script, project).catch(() => { /* Already reported by execute */ });
+    }, debounceMilliseconds));
   }
 
   private primeContentCache(filePath: string): void {
@@ -116,11 +300,21 @@ export class FileWatcherService {
   }
 
   /**
-   * Disposes of the service and all its watchers.
-   * This should be called when the extension is deactivated.
+   * Disposes of the service, its watchers and its timers, so that no triggered script runs
+   * anymore. This should be called when the extension is deactivated.
    */
   public dispose(): void {
+    this.disposeWatchers();
+    this.debounceTimers.forEach(timer => clearTimeout(timer));
+    this.debounceTimers.clear();
+    this.intervalTimers.forEach(({ timer }) => clearInterval(timer));
+    this.intervalTimers.clear();
+  }
+
+  private disposeWatchers(): void {
     this.watchers.forEach(w => w.dispose());
     this.watchers = [];
+    this.triggerDisposables.forEach(d => d.dispose());
+    this.triggerDisposables = [];
   }
 }
\ No newline at end of file
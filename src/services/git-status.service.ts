@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { GitStatus, Project } from '../types';
+import { LoggingService } from './logging.service';
+import { isParentPathOf } from '../utils/file-utils';
+
+const maxConcurrentUpdates = 4;
+const updateDelayMilliseconds = 500;
+const gitTimeoutMilliseconds = 10000;
+
+/**
+ * A singleton service that reads the branch, the changed files and the ahead/behind counts of
+ * the git repositories of the projects. The statuses are cached and read again when the HEAD,
+ * the index or the refs of a repository change, or when a file in it is saved.
+ */
+export class GitStatusService {
+  private static _instance: GitStatusService;
+  private statuses: Map<string, GitStatus | null> = new Map(); /* null while the status is read, or if it could not be read */
+  private queue: string[] = [];
+  private runningUpdates = 0;
+  private watchers: Map<string, vscode.Disposable> = new Map();
+  private updateTimers: Map<string, NodeJS.Timeout> = new Map();
+  private saveListener: vscode.Disposable;
+  private _onDidChangeStatus = new vscode.EventEmitter<void>();
+  readonly onDidChangeStatus: vscode.Event<void> = this._onDidChangeStatus.event;
+
+  private constructor() {
+    this.saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+      for (const repositoryPath of this.watchers.keys()) {
+        if (isParentPathOf(repositoryPath, document.uri.fsPath)) {
+          this.scheduleUpdate(repositoryPath);
+        }
+      }
+    });
+  }
+
+  /**
+   * Gets the singleton instance of the GitStatusService.
+   */
+  public static get instance(): GitStatusService {
+    if (!GitStatusService._instance) {
+      GitStatusService._instance = new GitStatusService();
+    }
+    return GitStatusService._instance;
+  }
+
+  /**
+   * Returns the cached git status of a project. If the status has not been read yet, it is
+   * read in the background and {@link onDidChangeStatus} fires when it is available.
+   * @param project The project.
+   * @returns The status, or undefined if the project has no repository or its status is not known yet.
+   */
+  public getStatus(project: Project): GitStatus | undefined {
+    if (!project.gitPath) {
+      return undefined;
+    }
+    const repositoryPath = path.dirname(project.gitPath);
+    this.watch(repositoryPath, project.gitPath);
+    if (!this.statuses.has(repositoryPath)) {
+      this.statuses.set(repositoryPath, null);
+      this.enqueue(repositoryPath);
+    }
+    return this.statuses.get(repositoryPath) ?? undefined;
+  }
+
+  /**
+   * Discards all cached statuses, so that they are read again when they are requested.
+   */
+  public clear(): void {
+    this.statuses.clear();
+    this._onDidChangeStatus.fire();
+  }
+
+  private watch(repositoryPath: string, gitPath: string): void {
+    if (this.watchers.has(repositoryPath)) {
+      return;
+    }
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(gitPath, '{HEAD,index,FETCH_HEAD,refs/heads/**,refs/remotes/**}'));
+    const onChange = () => this.scheduleUpdate(repositoryPath);
+    watcher.onDidChange(onChange);
+    watcher.onDidCreate(onChange);
+    watcher.onDidDelete(onChange);
+    this.watchers.set(repositoryPath, watcher);
+  }
+
+  /**
+   * Reads the status of a repository again after a quiet period, so that a burst of changes
+   * (like a checkout) causes a single update.
+   */
+  private scheduleUpdate(repositoryPath: string): void {
+    clearTimeout(this.updateTimers.get(repositoryPath));
+    this.updateTimers.set(repositoryPath, setTimeout(() => {
+      this.updateTimers.delete(repositoryPath);
+      this.enqueue(repositoryPath);
+    }, updateDelayMilliseconds));
+  }
+
+  private enqueue(repositoryPath: string): void {
+    if (!this.queue.includes(repositoryPath)) {
+      this.queue.push(repositoryPath);
+    }
+    this.processQueue();
+  }
+
+  /**
+   * Reads the queued statuses, a few at a time, so that many projects do not start
+   * a git process each at once.
+   */
+  private processQueue(): void {
+    while (this.runningUpdates < maxConcurrentUpdates && this.queue.length > 0) {
+      const repositoryPath = this.queue.shift()!;
+      this.runningUpdates++;
+      this.readStatus(repositoryPath)
+        .then(status => {
+          this.statuses.set(repositoryPath, status);
+          this._onDidChangeStatus.fire();
+        })
+        .catch(error => {
+          LoggingService.instance.logWarning(`Could not read the git status of '${repositoryPath}': ${error instanceof Error ? error.message : String(error)}`);
+        })
+        .finally(() => {
+          this.runningUpdates--;
+          this.processQueue();
+        });
+    }
+  }
+
+  private readStatus(repositoryPath: string): Promise<GitStatus> {
+    return new Promise((resolve, reject) => {
+      // --no-optional-locks keeps git from writing the index, which would trigger the watcher again
+      execFile('git', ['--no-optional-locks', 'status', '--porcelain=v2', '--branch'], { cwd: repositoryPath, timeout: gitTimeoutMilliseconds }, (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(this.parseStatus(stdout));
+      });
+    });
+  }
+
+  /**
+   * Parses the output of `git status --porcelain=v2 --branch`.
+   */
+  private parseStatus(output: string): GitStatus {
+    const status: GitStatus = { branch: '(unknown)', changedFiles: 0 };
+    for (const line of output.split(/\r?\n/)) {
+      if (line.startsWith('# branch.head ')) {
+        status.branch = line.substring('# branch.head '.length);
+      } else if (line.startsWith('# branch.upstream ')) {
+        status.upstream = line.substring('# branch.upstream '.length);
+      } else if (line.startsWith('# branch.ab ')) {
+        const match = line.match(/\+(\d+) -(\d+)/);
+        status.ahead = match ? Number(match[1]) : undefined;
+        status.behind = match ? Number(match[2]) : undefined;
+      } else if (line && !line.startsWith('#')) {
+        status.changedFiles++;
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Disposes of the watchers and timers of the service.
+   */
+  public dispose(): void {
+    this.watchers.forEach(w => w.dispose());
+    this.watchers.clear();
+    this.updateTimers.forEach(t => clearTimeout(t));
+    this.updateTimers.clear();
+    this.saveListener.dispose();
+  }
+}
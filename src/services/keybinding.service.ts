@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { Script } from '../types';
+import { ProjectService } from './project.service';
+import { ScriptService } from './script.service';
+import { ScriptExecutionService } from './script-execution.service';
+
+const keybindingSlots = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * A singleton service that maps the keybinding slots 1-9 to the scripts of the current project
+ * with a matching `keybinding`. The keybindings contributed in package.json are only enabled
+ * for the slots in use, through the context keys `prodash.keybinding1` to `prodash.keybinding9`.
+ */
+export class KeybindingService {
+  private static _instance: KeybindingService;
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the KeybindingService.
+   */
+  public static get instance(): KeybindingService {
+    if (!KeybindingService._instance) {
+      KeybindingService._instance = new KeybindingService();
+    }
+    return KeybindingService._instance;
+  }
+
+  /**
+   * Returns the script of the current project bound to a slot. A project script takes
+   * precedence over a global script with the same slot. Scripts that do not apply to the
+   * project are ignored.
+   * @param slot The slot, 1 to 9.
+   */
+  public getScript(slot: number): Script | undefined {
+    const project = ProjectService.instance.currentProject;
+    if (!project) {
+      return undefined;
+    }
+    const scripts = ScriptService.instance.getScripts(project.path)
+      .filter(s => s.keybinding === slot && ScriptExecutionService.instance.appliesTo(s, project));
+    return scripts.find(s => !s.isGlobal) ?? scripts[0];
+  }
+
+  /**
+   * Updates the context keys of the slots after the current project or its scripts changed.
+   */
+  public update(): void {
+    for (const slot of keybindingSlots) {
+      vscode.commands.executeCommand('setContext', `prodash.keybinding${slot}`, !!this.getScript(slot));
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ChildProcess, spawn } from 'child_process';
+import { LoggingService } from './logging.service';
+import { CommandFailedError, ScriptCancelledError } from '../errors';
+import { ShellProfile } from '../types';
+import { expandHomePath } from '../utils/file-utils';
+import { parseChangeDirectory } from '../utils/shell-utils';
+
+/**
+ * Options for a headless (background) script run.
+ */
+export interface BackgroundRunOptions {
+  /** The name of the run, used for its output channel. */
+  name: string;
+  /** The directory the first command runs in. */
+  cwd: string;
+  /** The shell to run the commands with. */
+  shell: ShellProfile;
+  /** Variables added to the environment of the processes. */
+  env?: Record<string, string>;
+  /** A file the output is also written to. */
+  logFile?: string;
+}
+
+/**
+ * A singleton service for running script lines as child processes, without a terminal.
+ * The output of every run is streamed to an output channel named after the run,
+ * and the exit code of every command is captured.
+ */
+export class ProcessService {
+  private static _instance: ProcessService;
+  private outputChannels: Map<string, vscode.OutputChannel> = new Map();
+  private runningProcesses: Set<ChildProcess> = new Set();
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the ProcessService.
+   */
+  public static get instance(): ProcessService {
+    if (!ProcessService._instance) {
+      ProcessService._instance = new ProcessService();
+    }
+    return ProcessService._instance;
+  }
+
+  /**
+   * Executes a series of script lines one after the other as child processes.
+   * The sequence stops at the first command that exits with a non-zero code.
+   * Since every line runs in its own process, lines that only change the folder, like
+   * `cd src` or `cd ~/work`, are not executed but change the working directory of the
+   * following lines. All other lines, like `cd src && npm test`, are run by the shell as is. The output is also written
+   * to the log file of the run, if one is given. When the run is cancelled, the process tree
+   * of the running command is killed and the remaining lines are skipped.
+   * @param scriptLines The array of command lines to execute.
+   * @param options The options of the run.
+   * @param token A token that cancels the run.
+   * @returns The exit code of the last command.
+   */
+  public async runInBackground(scriptLines: string[], options: BackgroundRunOptions, token?: vscode.CancellationToken): Promise<number> {
+    const channel = this.getOutputChannel(options.name);
+    channel.clear();
+    const logStream = options.logFile ? fs.createWriteStream(options.logFile, { flags: 'w' }) : undefined;
+    logStream?.on('error', error => LoggingService.instance.logWarning(`Could not write run log ${options.logFile}: ${error.message}`));
+    const output = (text: string) => {
+      channel.append(text);
+      logStream?.write(text);
+    };
+
+    try {
+      output(`[${new Date().toLocaleTimeString()}] Running "${options.name}"\n`);
+
+      let cwd = options.cwd;
+      let exitCode = 0;
+      for (const line of scriptLines) {
+        if (token?.isCancellationRequested) {
+          throw new ScriptCancelledError(options.name);
+        }
+        const folder = parseChangeDirectory(line);
+        if (folder !== undefined) {
+          cwd = path.resolve(cwd, expandHomePath(folder));
+          output(`> ${line}\n`);
+          continue;
+        }
+
+        output(`> ${line}\n`);
+        exitCode = await this.runProcess(line, cwd, options, output, token);
+        if (token?.isCancellationRequested) {
+          output(`[${new Date().toLocaleTimeString()}] "${options.name}" was cancelled.\n`);
+          throw new ScriptCancelledError(options.name);
+        }
+        if (exitCode !== 0) {
+          output(`[${new Date().toLocaleTimeString()}] "${options.name}" failed with exit code ${exitCode}.\n`);
+          throw new CommandFailedError(line, exitCode);
+        }
+      }
+
+      output(`[${new Date().toLocaleTimeString()}] "${options.name}" finished with exit code ${exitCode}.\n`);
+      return exitCode;
+    } finally {
+      logStream?.end();
+    }
+  }
+
+  private runProcess(line: string, cwd: string, options: BackgroundRunOptions, output: (text: string) => void, token?: vscode.CancellationToken): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const child = this.spawnShell(line, cwd, options);
+      this.runningProcesses.add(child);
+      const cancellation = token?.onCancellationRequested(() => this.killProcessTree(child));
+      child.on('exit', () => {
+        this.runningProcesses.delete(child);
+        cancellation?.dispose();
+      });
+      child.stdout?.on('data', (data: Buffer) => output(data.toString()));
+      child.stderr?.on('data', (data: Buffer) => output(data.toString()));
+      child.on('error', error => {
+        // A process that could not be started does not exit
+        this.runningProcesses.delete(child);
+        cancellation?.dispose();
+        LoggingService.instance.logError(`Failed to start command "${line}".`, error);
+        reject(error);
+      });
+      // A process killed by a signal has no exit code; it is reported as a failure.
+      child.on('close', code => resolve(code ?? -1));
+    });
+  }
+
+  /**
+   * Starts a command line in the shell of the run. Without a shell path, the default
+   * shell of the system is used.
+   */
+  private spawnShell(line: string, cwd: string, options: BackgroundRunOptions): ChildProcess {
+    const env = { ...process.env, ...options.env };
+    // On POSIX systems, the shell leads a new process group so that its whole tree can be killed
+    const detached = process.platform !== 'win32';
+    const shell = options.shell;
+    if (!shell.shellPath) {
+      return spawn(line, { cwd, env, detached, shell: true });
+    }
+
+    const shellArgs = shell.shellArgs || [];
+    switch (shell.quoting) {
+      case 'cmd':
+        return spawn(shell.shellPath, [...shellArgs, '/d', '/s', '/c', `"${line}"`], { cwd, env, detached, windowsVerbatimArguments: true });
+      case 'powershell':
+        return spawn(shell.shellPath, [...shellArgs, '-Command', line], { cwd, env, detached });
+      default:
+        return spawn(shell.shellPath, [...shellArgs, '-c', line], { cwd, env, detached });
+    }
+  }
+
+  /**
+   * Kills a child process together with all processes it started.
+   */
+  private killProcessTree(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) {
+      return;
+    }
+    try {
+      if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+      } else {
+        process.kill(-child.pid, 'SIGTERM');
+      }
+    } catch (error) {
+      LoggingService.instance.logWarning(`Could not kill process ${child.pid}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private getOutputChannel(name: string): vscode.OutputChannel {
+    let channel = this.outputChannels.get(name);
+    if (!channel) {
+      channel = vscode.window.createOutputChannel(`ProDash: ${name}`);
+      this.outputChannels.set(name, channel);
+    }
+    channel.show(true);
+    return channel;
+  }
+
+  /**
+   * Kills the processes of the background runs that are still running, since they were
+   * started in process groups of their own and would outlive VS Code, and disposes of
+   * all output channels created for background runs.
+   */
+  public dispose(): void {
+    this.runningProcesses.forEach(child => this.killProcessTree(child));
+    this.runningProcesses.clear();
+    this.outputChannels.forEach(c => c.dispose());
+    this.outputChannels.clear();
+  }
+}
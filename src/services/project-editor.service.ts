@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { Project } from '../types';
+import { ProjectService } from './project.service';
+import { LoggingService } from './logging.service';
+import { createFolderIfNotExist, normalizePath } from '../utils/file-utils';
+import { addEntryToGroup, editJsonc, getEntries, JsoncEntry, moveEntryToGroup, parseForEdit } from '../utils/jsonc-utils';
+import { projectsJsoncFileName } from '../constants';
+
+/**
+ * A singleton service that adds, renames, moves and removes the projects of the global
+ * `projects.jsonc` file. The file is edited in place, so its comments and formatting are kept.
+ * Both the grouped and the old flat format are supported. The file watcher refreshes the
+ * tree view after every change.
+ */
+export class ProjectEditorService {
+  private static _instance: ProjectEditorService;
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the ProjectEditorService.
+   */
+  public static get instance(): ProjectEditorService {
+    if (!ProjectEditorService._instance) {
+      ProjectEditorService._instance = new ProjectEditorService();
+    }
+    return ProjectEditorService._instance;
+  }
+
+  /**
+   * Returns the names of the project groups in projects.jsonc, in the order of the file.
+   */
+  public getGroupNames(): string[] {
+    const root = this.parse(this.readText());
+    if (root.type === 'array') {
+      const groups = (root.children || []).map(n => jsonc.findNodeAtLocation(n, ['group'])?.value);
+      return [...new Set(groups.filter((g): g is string => typeof g === 'string'))];
+    }
+    return (root.children || [])
+      .map(p => p.children?.[0].value)
+      .filter((g): g is string => typeof g === 'string' && !g.startsWith('_'));
+  }
+
+  /**
+   * Adds a project to a group of projects.jsonc. The group is created if it does not exist.
+   * @param name The name of the project.
+   * @param projectPath The absolute path of the project folder.
+   * @param group The group to add the project to.
+   * @throws If the folder is already configured as a project.
+   */
+  public addProject(name: string, projectPath: string, group: string): void {
+    const text = this.readText();
+    const root = this.parse(text);
+    const existingEntry = getEntries(root).find(e => this.hasPath(e.node, projectPath));
+    if (existingEntry) {
+      throw new Error(`The folder '${projectPath}' is already configured as project '${jsonc.findNodeAtLocation(existingEntry.node, ['name'])?.value}'.`);
+    }
+    this.writeText(addEntryToGroup(text, { name, path: projectPath }, group));
+    LoggingService.instance.logInfo(`Added project '${name}' (${projectPath}) to group '${group}'.`);
+  }
+
+  /**
+   * Renames a project. A project that is not configured yet (a discovered project or an
+   * unregistered workspace) is added to projects.jsonc with the new name.
+   * @param project The project to rename.
+   * @param newName The new name.
+   */
+  public renameProject(project: Project, newName: string): void {
+    const text = this.readText();
+    const entry = this.findEntry(this.parse(text), project);
+    if (!entry) {
+      this.addProject(newName, project.path, project.group || 'Uncategorized');
+      return;
+    }
+    this.writeText(editJsonc(text, [...entry.jsonPath, 'name'], newName));
+    LoggingService.instance.logInfo(`Renamed project '${project.name}' to '${newName}'.`);
+  }
+
+  /**
+   * Moves a project to another group. The group is created if it does not exist. A project
+   * that is not configured yet is added to projects.jsonc in that group. The comments of the
+   * entry of the project move with it.
+   * @param project The project to move.
+   * @param group The group to move the project to.
+   */
+  public moveProject(project: Project, group: string): void {
+    const text = this.readText();
+    const entry = this.findEntry(this.parse(text), project);
+    if (!entry) {
+      this.addProject(project.name, project.path, group);
+      return;
+    }
+    this.writeText(moveEntryToGroup(text, entry, group));
+    LoggingService.instance.logInfo(`Moved project '${project.name}' to group '${group}'.`);
+  }
+
+  /**
+   * Removes a project from projects.jsonc.
+   * @param project The project to remove.
+   * @throws If the project is not configured in projects.jsonc.
+   */
+  public removeProject(project: Project): void {
+    const text = this.readText();
+    const entry = this.findEntry(this.parse(text), project);
+    if (!entry) {
+      throw new Error(`Project '${project.name}' is not configured in projects.jsonc.`);
+    }
+    this.writeText(editJsonc(text, entry.jsonPath, undefined));
+    LoggingService.instance.logInfo(`Removed project '${project.name}'.`);
+  }
+
+  private findEntry(root: jsonc.Node, project: Project): JsoncEntry | undefined {
+    const entries = getEntries(root).filter(e => this.hasPath(e.node, project.path));
+    return entries.find(e => jsonc.findNodeAtLocation(e.node, ['name'])?.value === project.name) ?? entries[0];
+  }
+
+  private hasPath(node: jsonc.Node, projectPath: string): boolean {
+    const entryPath = jsonc.findNodeAtLocation(node, ['path'])?.value;
+    return typeof entryPath === 'string' && normalizePath(path.resolve(entryPath)) === normalizePath(path.resolve(projectPath));
+  }
+
+  private readText(): string {
+    const file = ProjectService.instance.globalConfigurationFileNameAndPath;
+    const text = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+    return text.trim() ? text : '{\n}\n';
+  }
+
+  private writeText(text: string): void {
+    createFolderIfNotExist(ProjectService.instance.globalConfigurationPath);
+    fs.writeFileSync(ProjectService.instance.globalConfigurationFileNameAndPath, text, 'utf8');
+  }
+
+  private parse(text: string): jsonc.Node {
+    return parseForEdit(text, projectsJsoncFileName);
+  }
+}
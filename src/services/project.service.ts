@@ -2,13 +2,18 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
-import { Project, ProjectGroups } from '../types';
+import { Project, ProjectGroups, ProjectsSettings, ScanRoot, ShellProfile } from '../types';
 import { ConfigurationService } from './configuration.service';
 import { proDashFolderName, projectDescriptionFileName, projectFullDescriptionFileName, projectLongDescriptionFileName, projectsJsoncFileName, scriptsJsoncFileName, templatesSubFolderName } from '../constants';
 import { LoggingService } from './logging.service';
-import { isParentPathOf, findUpDirectoryWithName, createFolderIfNotExist, createTextFileIfNotExist } from '../utils/file-utils';
+import { isParentPathOf, findUpDirectoryWithName, createFolderIfNotExist, createTextFileIfNotExist, expandHomePath, normalizePath } from '../utils/file-utils';
+import { globToRegExp } from '../utils/parse-utils';
 import { ScriptService } from './script.service';
 import { ScriptExecutionService } from './script-execution.service';
+import { ScriptCancelledError } from '../errors';
+import { StateService } from './state.service';
+
+const currentProjectKey = 'prodash.currentProject';
 
 /**
  * A singleton service for loading, resolving, and managing project configurations.
@@ -18,10 +23,18 @@ export class ProjectService {
   private _projects: Project[] = [];
   private _globalConfigurationFile: string;
   private _currentProject: Project | undefined;
+  private _shellProfiles: Record<string, ShellProfile> = {};
+  private _scanRoots: ScanRoot[] = [];
+  private discoveredProjects: Project[] | undefined;
+  private discoveredScanRoots = '';
+  private _variables: Record<string, string> = {};
+  private _onDidChangeCurrentProject = new vscode.EventEmitter<Project | undefined>();
+  readonly onDidChangeCurrentProject: vscode.Event<Project | undefined> = this._onDidChangeCurrentProject.event;
+  private hasAskedForCurrentProject = false;
 
   private constructor() {
     this._globalConfigurationFile = path.join(os.homedir(), proDashFolderName, projectsJsoncFileName);
-    this.loadAndResolveProjects();
+    this.loadAndResolveProjects(true);
   }
 
   public static get instance(): ProjectService {
@@ -32,7 +45,9 @@ export class ProjectService {
   }
 
   /**
-   * Gets the project that is currently active in the workspace.
+   * Gets the project that commands without an explicit project apply to. With several active
+   * projects, it is the project selected with {@link selectCurrentProject}, the project of the
+   * active editor if `prodash.currentProjectFollowsActiveEditor` is enabled, or else the first one.
    */
   public get currentProject(): Project | undefined {
     return this._currentProject;
@@ -46,6 +61,28 @@ export class ProjectService {
     return this._globalConfigurationFile;
   }
 
+  /**
+   * Gets the user-defined shell profiles from the `_shellProfiles` section of projects.jsonc.
+   */
+  public get shellProfiles(): Record<string, ShellProfile> {
+    return this._shellProfiles;
+  }
+
+  /**
+   * Gets the folders that are searched for projects, from the `_scanRoots` section of projects.jsonc.
+   * Their paths are expanded.
+   */
+  public get scanRoots(): ScanRoot[] {
+    return this._scanRoots;
+  }
+
+  /**
+   * Gets the user-defined variables of all projects, from the `_variables` section of projects.jsonc.
+   */
+  public get variables(): Record<string, string> {
+    return this._variables;
+  }
+
   /**
    * Returns a cached list of all fully resolved projects.
    */
@@ -53,24 +90,103 @@ export class ProjectService {
     return this._projects;
   }
 
+  /**
+   * Makes an active project the current project and saves the choice for the workspace.
+   * @param project The project, which must be active.
+   */
+  public async selectCurrentProject(project: Project): Promise<void> {
+    await StateService.instance.updateWorkspace(currentProjectKey, project.path);
+    this.setCurrentProject(this._projects.find(p => p.isActive && p.path === project.path) ?? this._currentProject);
+  }
+
+  /**
+   * Makes the active project that contains a file the current project, if following the
+   * active editor is enabled. The saved choice is not changed.
+   * @param uri The URI of the file in the active editor.
+   */
+  public followActiveEditor(uri: vscode.Uri | undefined): void {
+    if (!this.followsActiveEditor || uri?.scheme !== 'file') {
+      return;
+    }
+    const project = this.findActiveProjectOf(uri.fsPath);
+    if (project) {
+      this.setCurrentProject(project);
+    }
+  }
+
+  private get followsActiveEditor(): boolean {
+    return vscode.workspace.getConfiguration('prodash').get<boolean>('currentProjectFollowsActiveEditor', false);
+  }
+
+  private setCurrentProject(project: Project | undefined): void {
+    if (project !== this._currentProject) {
+      this._currentProject = project;
+      LoggingService.instance.logInfo(`Current project: ${project?.name ?? 'none'}`);
+      this._onDidChangeCurrentProject.fire(project);
+    }
+  }
+
+  /**
+   * Returns the active project with the deepest folder that contains a file.
+   */
+  private findActiveProjectOf(filePath: string): Project | undefined {
+    return this._projects
+      .filter(p => p.isActive && isParentPathOf(p.path, filePath))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  /**
+   * Determines the current project among the active projects, see {@link currentProject}.
+   */
+  private determineCurrentProject(activeProjects: Project[]): Project | undefined {
+    const editorUri = vscode.window.activeTextEditor?.document.uri;
+    if (this.followsActiveEditor && editorUri?.scheme === 'file') {
+      const editorProject = this.findActiveProjectOf(editorUri.fsPath);
+      if (editorProject) {
+        return editorProject;
+      }
+    }
+    const selectedPath = StateService.instance.getWorkspace<string | undefined>(currentProjectKey, undefined);
+    return activeProjects.find(p => p.path === selectedPath) ?? activeProjects[0];
+  }
+
+  /**
+   * Finds a project by its name or by its path.
+   * @param nameOrPath The name of the project, or the absolute path of its folder.
+   */
+  public findProject(nameOrPath: string): Project | undefined {
+    return this._projects.find(p => p.name === nameOrPath)
+      ?? this._projects.find(p => normalizePath(path.resolve(p.path)) === normalizePath(path.resolve(nameOrPath)));
+  }
+
   /**
    * Reloads all project configurations from disk and resolves their properties.
+   * The scan roots are only searched again if asked for or if they changed, since searching
+   * them takes a while; otherwise the projects found last time are used.
+   * @param rescan Whether to search the scan roots again.
    */
-  public refresh(): void {
-    this.loadAndResolveProjects();
+  public refresh(rescan = false): void {
+    this.loadAndResolveProjects(rescan);
   }
 
   /**
    * The main orchestration method to load, parse, and enrich project data.
    */
-  private loadAndResolveProjects(): void {
+  private loadAndResolveProjects(rescan: boolean): void {
     const configuredProjects = this.loadProjectsFromConfig();
+    const scanRoots = JSON.stringify(this._scanRoots);
+    if (rescan || !this.discoveredProjects || scanRoots !== this.discoveredScanRoots) {
+      this.discoveredProjects = this.discoverProjects();
+      this.discoveredScanRoots = scanRoots;
+    }
+    const configuredPaths = new Set(configuredProjects.map(p => normalizePath(path.resolve(p.path))));
+    configuredProjects.push(...this.discoveredProjects
+      .filter(p => !configuredPaths.has(normalizePath(path.resolve(p.path))))
+      .map(p => ({ ...p })));
     const workspaceFolderPaths = vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) || [];
     const resolvedProjects: Project[] = [];
     const coveredWorkspaceFolders = new Set<string>();
-    let activeProjectCount = 0;
-
-    this._currentProject = undefined;
+    const activeProjects: Project[] = [];
 
     // 1. Process projects from projects.jsonc
     for (const p of configuredProjects) {
@@ -89,6 +205,7 @@ export class ProjectService {
       const fullDescriptionFile = proDashPath ? path.join(proDashPath, projectFullDescriptionFileName) : undefined;
 
       const resolvedProject: Project = {
+        origin: 'configured',
         ...p,
         isActive,
         proDashPath,
@@ -100,10 +217,7 @@ export class ProjectService {
       };
 
       if (isActive) {
-        activeProjectCount++;
-        if (!this._currentProject) {
-          this._currentProject = resolvedProject;
-        }
+        activeProjects.push(resolvedProject);
         this.initializeProjectFiles(resolvedProject);
       }
       resolvedProjects.push(resolvedProject);
@@ -125,24 +239,30 @@ export class ProjectService {
 
       const unregisteredProject: Project = {
         name: path.basename(wsPath), path: wsPath, group: 'Uncategorized',
-        description: `(Unregistered workspace)`, isActive: true, proDashPath, gitPath,
+        description: `(Unregistered workspace)`, isActive: true, origin: 'workspace', proDashPath, gitPath,
         scriptJsonFile, descriptionFile, longDescriptionFile, fullDescriptionFile,
       };
 
-      activeProjectCount++;
-      if (!this._currentProject) {
-        this._currentProject = unregisteredProject;
-      }
+      activeProjects.push(unregisteredProject);
       this.initializeProjectFiles(unregisteredProject);
       resolvedProjects.push(unregisteredProject);
     }
 
     this._projects = resolvedProjects;
+    this._currentProject = this.determineCurrentProject(activeProjects);
 
-    if (activeProjectCount > 1) {
-      vscode.window.showWarningMessage(
-        `Multiple active ProDash projects found. Commands will default to the first project: '${this._currentProject?.name}'.`
-      );
+    // Offer to choose the current project once, unless it was chosen before or follows the editor
+    const hasSelection = StateService.instance.getWorkspace<string | undefined>(currentProjectKey, undefined) !== undefined;
+    if (activeProjects.length > 1 && !hasSelection && !this.followsActiveEditor && !this.hasAskedForCurrentProject) {
+      this.hasAskedForCurrentProject = true;
+      vscode.window.showInformationMessage(
+        `Multiple active ProDash projects found. Commands apply to '${this._currentProject?.name}'.`,
+        'Select Current Project'
+      ).then(selection => {
+        if (selection) {
+          vscode.commands.executeCommand('prodash.selectCurrentProject');
+        }
+      });
     }
   }
 
@@ -151,6 +271,9 @@ export class ProjectService {
    */
   private loadProjectsFromConfig(): Project[] {
     const projectsData = ConfigurationService.instance.loadConfiguration<Project[] | ProjectGroups>(this._globalConfigurationFile);
+    this._shellProfiles = {};
+    this._scanRoots = [];
+    this._variables = {};
 
     if (!projectsData) {
       return [];
@@ -161,6 +284,9 @@ export class ProjectService {
     if (Array.isArray(projectsData)) {
       allProjects.push(...projectsData); // Old flat format
     } else { // New grouped format
+      this._shellProfiles = (projectsData as ProjectsSettings)._shellProfiles || {};
+      this._scanRoots = ((projectsData as ProjectsSettings)._scanRoots || []).map(r => ({ ...r, path: expandHomePath(r.path) }));
+      this._variables = (projectsData as ProjectsSettings)._variables || {};
       for (const groupName in projectsData) {
         if (Object.prototype.hasOwnProperty.call(projectsData, groupName) && !groupName.startsWith('_')) {
           const projectsInGroup = projectsData[groupName] || [];
@@ -171,6 +297,101 @@ export class ProjectService {
     return allProjects.filter(p => !p.name.startsWith('_')).map(p => ({ ...p, group: p.group ?? 'Uncategorized' }));
   }
 
+  /**
+   * Searches the scan roots for git repositories and folders with a `.prodash` folder, up to
+   * the depth of each root. The search does not descend into the projects it finds.
+   * The projects found include those that are also configured in projects.jsonc.
+   * @returns The projects found, grouped by the rules of their scan root.
+   */
+  private discoverProjects(): Project[] {
+    const knownPaths = new Set<string>();
+    const discoveredProjects: Project[] = [];
+
+    for (const root of this._scanRoots) {
+      if (!fs.existsSync(root.path)) {
+        LoggingService.instance.logWarning(`Scan root '${root.path}' does not exist.`);
+        continue;
+      }
+      const includes = (root.include || []).map(globToRegExp);
+      const excludes = ['**/node_modules', ...(root.exclude || [])].map(globToRegExp);
+      let groupPattern: RegExp | undefined;
+      try {
+        groupPattern = root.groupPattern ? new RegExp(root.groupPattern) : undefined;
+      } catch (error) {
+        LoggingService.instance.logWarning(`Invalid groupPattern of scan root '${root.path}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const searchFolder = (folder: string, relativeFolder: string, level: number) => {
+        let entries: fs.Dirent[];
+        try {
+          entries = fs.readdirSync(folder, { withFileTypes: true });
+        } catch (error) {
+          LoggingService.instance.logWarning(`Could not search folder '${folder}' for projects: ${error instanceof Error ? error.message : String(error)}`);
+          return;
+        }
+
+        for (const entry of entries) {
+          if (!entry.isDirectory() || entry.name.startsWith('.')) {
+            continue;
+          }
+          const folderPath = path.join(folder, entry.name);
+          const relativePath = relativeFolder ? `${relativeFolder}/${entry.name}` : entry.name;
+          if (excludes.some(e => e.test(relativePath))) {
+            continue;
+          }
+
+          const isProject = fs.existsSync(path.join(folderPath, '.git')) || fs.existsSync(path.join(folderPath, proDashFolderName));
+          if (!isProject) {
+            if (level < (root.depth ?? 2)) {
+              searchFolder(folderPath, relativePath, level + 1);
+            }
+            continue;
+          }
+
+          const normalizedPath = normalizePath(folderPath);
+          if (knownPaths.has(normalizedPath) || (includes.length > 0 && !includes.some(i => i.test(relativePath)))) {
+            continue;
+          }
+          knownPaths.add(normalizedPath);
+          const patternGroup = groupPattern ? entry.name.match(groupPattern)?.[1] : undefined;
+          const group = root.group ?? patternGroup ?? path.basename(folder);
+          discoveredProjects.push({ name: entry.name, path: folderPath, group, origin: 'discovered' });
+        }
+      };
+      searchFolder(root.path, '', 1);
+    }
+
+    if (discoveredProjects.length > 0) {
+      LoggingService.instance.logInfo(`Discovered ${discoveredProjects.length} projects in the scan roots.`);
+    }
+    return discoveredProjects;
+  }
+
+  /**
+   * Creates the scripts file of a project from the global template, or from a sample if the
+   * template does not exist. Errors are logged.
+   * @param project The project the file is for.
+   * @param scriptsFile The path of the file to create.
+   */
+  public createScriptsFile(project: Project, scriptsFile: string): void {
+    const globalTemplateFile = path.join(os.homedir(), proDashFolderName, templatesSubFolderName, scriptsJsoncFileName);
+
+    try {
+      createFolderIfNotExist(path.dirname(scriptsFile));
+      if (fs.existsSync(globalTemplateFile)) {
+        fs.copyFileSync(globalTemplateFile, scriptsFile);
+        LoggingService.instance.logInfo(`Initialized '${scriptsJsoncFileName}' for project '${project.name}' from global template.`);
+      } else {
+        // Fallback to a default template if the global one doesn't exist
+        const fallbackTemplate = JSON.stringify({ "Sample Group": [{ name: "Sample Script", script: "echo 'Hello from ProDash!'", description: "A sample script to get you started." }] }, null, 2);
+        createTextFileIfNotExist(scriptsFile, fallbackTemplate);
+        LoggingService.instance.logWarning(`Global scripts template not found. Created a default '${scriptsJsoncFileName}' for project '${project.name}'.`);
+      }
+    } catch (error) {
+      LoggingService.instance.logError(`Failed to create '${scriptsJsoncFileName}' for project '${project.name}'.`, error);
+    }
+  }
+
   /**
    * Performs one-time setup for an active project, like creating the .prodash
    * folder or updating .gitignore. This is a mutable operation on the project object.
@@ -185,21 +406,7 @@ export class ProjectService {
       const newScriptsFile = path.join(newProDashPath, scriptsJsoncFileName);
       project.scriptJsonFile = newScriptsFile;
 
-      const globalTemplateFile = path.join(os.homedir(), proDashFolderName, templatesSubFolderName, scriptsJsoncFileName);
-
-      try {
-        if (fs.existsSync(globalTemplateFile)) {
-          fs.copyFileSync(globalTemplateFile, newScriptsFile);
-          LoggingService.instance.logInfo(`Initialized '${scriptsJsoncFileName}' for project '${project.name}' from global template.`);
-        } else {
-          // Fallback to a default template if the global one doesn't exist
-          const fallbackTemplate = JSON.stringify({ "Sample Group": [{ name: "Sample Script", script: "echo 'Hello from ProDash!'", description: "A sample script to get you started." }] }, null, 2);
-          createTextFileIfNotExist(newScriptsFile, fallbackTemplate);
-          LoggingService.instance.logWarning(`Global scripts template not found. Created a default '${scriptsJsoncFileName}' for project '${project.name}'.`);
-        }
-      } catch (error) {
-        LoggingService.instance.logError(`Failed to create '${scriptsJsoncFileName}' for project '${project.name}'.`, error);
-      }
+      this.createScriptsFile(project, newScriptsFile);
     }
 
     // If a git repo exists, ensure .prodash output is ignored.
@@ -223,15 +430,21 @@ export class ProjectService {
     if (activateScripts.length > 0) {
       LoggingService.instance.logInfo(`Running ON_ACTIVATE scripts for project '${project.name}'...`);
       // Execute scripts sequentially to avoid race conditions if one script depends on another.
+      // They share one cancellation source, so stopping one of them halts the whole chain.
+      const cancellation = new vscode.CancellationTokenSource();
       activateScripts.reduce(
-        (promise, script) => promise.then(() => ScriptExecutionService.instance.execute(script, project)),
+        (promise, script) => promise.then(() => ScriptExecutionService.instance.execute(script, project, cancellation)),
         Promise.resolve()
       ).catch(error => {
+        if (error instanceof ScriptCancelledError) {
+          LoggingService.instance.logInfo(`ON_ACTIVATE scripts for project '${project.name}' were stopped.`);
+          return;
+        }
         LoggingService.instance.logError(
           `An error occurred during ON_ACTIVATE script execution for project '${project.name}'. Further activation scripts for this project were halted.`,
           error
         );
-      });
+      }).finally(() => cancellation.dispose());
     }
   }
 }
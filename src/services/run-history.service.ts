@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Project, Script, ScriptRun } from '../types';
+import { StateService } from './state.service';
+import { LoggingService } from './logging.service';
+import { createFolderIfNotExist } from '../utils/file-utils';
+
+const runHistoryKey = 'prodash.runHistory';
+const maxHistoryEntries = 200;
+
+/**
+ * A singleton service that records every script run in the extension's global state,
+ * so that runs can be reviewed and repeated after their terminal output is gone.
+ */
+export class RunHistoryService {
+  private static _instance: RunHistoryService;
+  private _onDidChangeHistory = new vscode.EventEmitter<void>();
+  readonly onDidChangeHistory: vscode.Event<void> = this._onDidChangeHistory.event;
+
+  private constructor() { }
+
+  public static get instance(): RunHistoryService {
+    if (!RunHistoryService._instance) {
+      RunHistoryService._instance = new RunHistoryService();
+    }
+    return RunHistoryService._instance;
+  }
+
+  /**
+   * Returns all recorded runs, the most recent first.
+   */
+  public getRuns(): ScriptRun[] {
+    return StateService.instance.getGlobal<ScriptRun[]>(runHistoryKey, []);
+  }
+
+  /**
+   * Returns the most recent run, if any.
+   */
+  public getLastRun(): ScriptRun | undefined {
+    return this.getRuns()[0];
+  }
+
+  /**
+   * Records the start of a script run.
+   * @param script The script being run.
+   * @param project The project the script runs for.
+   * @param commands The resolved commands of the run.
+   * @param invokedScriptName The script that was run, if the script runs as one of its dependencies.
+   * @returns The new history entry, to be completed with {@link endRun}.
+   */
+  public async startRun(script: Script, project: Project, commands: string[], invokedScriptName?: string): Promise<ScriptRun> {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const run: ScriptRun = {
+      id,
+      projectName: project.name,
+      projectPath: project.path,
+      scriptName: script.name,
+      invokedScriptName,
+      commands,
+      startTime: Date.now(),
+      status: 'running',
+      logFile: this.getLogFilePath(id),
+    };
+
+    const runs = [run, ...this.getRuns()];
+    const removedRuns = runs.splice(maxHistoryEntries);
+    removedRuns.forEach(r => this.deleteLogFile(r));
+    await this.save(runs);
+    return run;
+  }
+
+  /**
+   * Records the end of a script run.
+   * @param run The history entry returned by {@link startRun}.
+   * @param status The final status of the run.
+   * @param exitCode The exit code of the run, if known.
+   * @param error The error message of a failed run.
+   */
+  public async endRun(run: ScriptRun, status: ScriptRun['status'], exitCode?: number, error?: string): Promise<void> {
+    run.endTime = Date.now();
+    run.durationMs = run.endTime - run.startTime;
+    run.status = status;
+    run.exitCode = exitCode;
+    run.error = error;
+
+    const runs = this.getRuns().map(r => r.id === run.id ? run : r);
+    await this.save(runs);
+  }
+
+  /**
+   * Marks the runs that were still running when VS Code was closed, so that they do not
+   * show as running forever. Called once on activation, before any script runs.
+   */
+  public async markInterruptedRuns(): Promise<void> {
+    const runs = this.getRuns();
+    const interruptedRuns = runs.filter(r => r.status === 'running');
+    if (interruptedRuns.length === 0) {
+      return;
+    }
+    interruptedRuns.forEach(r => {
+      r.status = 'unknown';
+      r.error = 'VS Code was closed during the run.';
+    });
+    await this.save(runs);
+  }
+
+  /**
+   * Removes all recorded runs and their log files.
+   */
+  public async clear(): Promise<void> {
+    this.getRuns().forEach(r => this.deleteLogFile(r));
+    await this.save([]);
+  }
+
+  private async save(runs: ScriptRun[]): Promise<void> {
+    await StateService.instance.updateGlobal(runHistoryKey, runs);
+    this._onDidChangeHistory.fire();
+  }
+
+  private getLogFilePath(id: string): string | undefined {
+    const storagePath = StateService.instance.storagePath;
+    if (!storagePath) {
+      return undefined;
+    }
+    const logsPath = path.join(storagePath, 'logs');
+    try {
+      createFolderIfNotExist(storagePath);
+      createFolderIfNotExist(logsPath);
+    } catch (error) {
+      LoggingService.instance.logWarning(`Could not create run log folder ${logsPath}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+    return path.join(logsPath, `${id}.log`);
+  }
+
+  private deleteLogFile(run: ScriptRun): void {
+    if (run.logFile && fs.existsSync(run.logFile)) {
+      try {
+        fs.unlinkSync(run.logFile);
+      } catch (error) {
+        LoggingService.instance.logWarning(`Could not delete run log ${run.logFile}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import { Project, Script } from '../types';
+import { ScriptService } from './script.service';
+import { LoggingService } from './logging.service';
+import { getEntries, moveEntryToGroup, parseForEdit } from '../utils/jsonc-utils';
+import { scriptsJsoncFileName } from '../constants';
+
+/**
+ * A singleton service that changes the scripts of the `scripts.jsonc` files. The files are
+ * edited in place, so their comments and formatting are kept.
+ */
+export class ScriptEditorService {
+  private static _instance: ScriptEditorService;
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the ScriptEditorService.
+   */
+  public static get instance(): ScriptEditorService {
+    if (!ScriptEditorService._instance) {
+      ScriptEditorService._instance = new ScriptEditorService();
+    }
+    return ScriptEditorService._instance;
+  }
+
+  /**
+   * Moves a script to another group of its `scripts.jsonc` file. The group is created if it
+   * does not exist. A global script is moved in the global `scripts.jsonc` file, which changes
+   * its group in all projects.
+   * @param script The script to move.
+   * @param project The project the script is shown in.
+   * @param group The group to move the script to.
+   * @throws If the script cannot be found in its file.
+   */
+  public moveScript(script: Script, project: Project, group: string): void {
+    const file = script.isGlobal ? ScriptService.instance.globalScriptsFileNameAndPath : ScriptService.instance.getScriptsFile(project.path);
+    const text = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+    const entry = getEntries(parseForEdit(text, scriptsJsoncFileName))
+      .find(e => jsonc.findNodeAtLocation(e.node, ['name'])?.value === script.name);
+    if (!entry) {
+      throw new Error(`Script '${script.name}' not found in ${file}.`);
+    }
+
+    fs.writeFileSync(file, moveEntryToGroup(text, entry, group), 'utf8');
+    LoggingService.instance.logInfo(`Moved script '${script.name}' to group '${group}' in ${file}.`);
+  }
+}
@@ -1,9 +1,46 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
 import { LoggingService } from './logging.service';
 import { ScriptService } from './script.service';
 import { TerminalService } from './terminal.service';
-import { Project, Script } from '../types';
+import { Project, RunScriptArgs, Script, ScriptPlatform, ScriptRun, ScriptStep, ShellProfile } from '../types';
 import { ProjectService } from './project.service';
+import { ScriptInputService } from './script-input.service';
+import { ProcessService } from './process.service';
+import { CommandFailedError, ScriptCancelledError, ScriptInputError, ScriptNotFoundError, VariableError, WhenExpressionError } from '../errors';
+import { RunHistoryService } from './run-history.service';
+import { readEnvFile } from '../utils/file-utils';
+import { evaluateWhenExpression, parseWhenExpression, WhenExpression } from '../utils/when-expression';
+import { scriptVariables } from '../constants';
+
+/**
+ * The values available while resolving the placeholders of one script.
+ */
+interface VariableContext {
+  inputValues: Record<string, string>;
+  env: Record<string, string>;
+  shell: ShellProfile;
+  /** The user-defined variables of the script, its project and the global ones. */
+  variables: Record<string, string>;
+}
+
+/**
+ * A script that is ready to run, with its commands and settings resolved.
+ */
+interface PreparedRun {
+  script: Script;
+  project: Project;
+  terminal?: string;
+  shell: ShellProfile;
+  env: Record<string, string>;
+  cwd: string;
+  commands: string[];
+  /** The scripts that run first: its `dependsOn` and those of the scripts it calls. */
+  dependencies: Script[];
+  /** The script that was run, if this script runs as one of its dependencies. */
+  invokedScriptName?: string;
+}
 
 /**
  * A singleton service responsible for executing scripts. It can handle
@@ -11,8 +48,17 @@ import { ProjectService } from './project.service';
  */
 export class ScriptExecutionService {
   private static _instance: ScriptExecutionService;
+  private runningScripts: Map<string, vscode.CancellationTokenSource> = new Map();
+  private failedRuns: Map<string, Error> = new Map(); /* The error of the last run of a script, if it failed */
+  /* The environments of previewed scripts by project, see previewVariable; reloaded projects are new objects */
+  private previewEnvironments = new WeakMap<Project, Map<string, Record<string, string>>>();
+  private _onDidChangeRunningScripts = new vscode.EventEmitter<void>();
+  readonly onDidChangeRunningScripts: vscode.Event<void> = this._onDidChangeRunningScripts.event;
 
-  private constructor() { }
+  private constructor() {
+    // A saved .env file changes the environments without reloading the projects
+    vscode.workspace.onDidSaveTextDocument(() => this.previewEnvironments = new WeakMap());
+  }
 
   public static get instance(): ScriptExecutionService {
     if (!ScriptExecutionService._instance) {
@@ -22,84 +68,743 @@ export class ScriptExecutionService {
   }
 
   /**
-   * Executes a given script for a project. It resolves placeholders and handles
-   * `{{RUN_SCRIPT:ScriptName}}` directives.
+   * Executes a given script for a project, after the scripts it depends on (`dependsOn`).
+   * The dependencies of a script with `"parallel": true` run at the same time; otherwise
+   * they run one after the other. A script shared by several branches runs only once, and
+   * a dependency that is already running in another run is waited for instead of started again.
+   * The dependencies of scripts called through `{{RUN_SCRIPT:...}}` run first as well.
+   * All inputs are prompted for before anything runs. While the script runs, it can be
+   * stopped with {@link stop}. A script whose `when` expression is false is skipped.
    * @param scriptToRun The script to execute.
    * @param project The project context for the script.
+   * @param cancellation The source that stops the run. Pass the same source to several runs
+   *                     to stop them all together; a new source is used if omitted.
+   * @param inputValues Values for the inputs of the script, which are then not prompted for.
+   *                    Its dependencies are still prompted for their inputs.
+   * @throws ScriptCancelledError if the run was stopped, so that chained runs stop as well.
    */
-  public async execute(scriptToRun: Script, project: Project): Promise<void> {
+  public async execute(scriptToRun: Script, project: Project, cancellation?: vscode.CancellationTokenSource, inputValues?: Record<string, string>): Promise<void> {
+    if (this.isRunning(scriptToRun, project)) {
+      vscode.window.showInformationMessage(`ProDash: Script "${scriptToRun.name}" is already running.`);
+      return;
+    }
     LoggingService.instance.logInfo(`Executing script "${scriptToRun.name}" for project "${project.name}"...`);
 
+    const tokenSource = cancellation ?? new vscode.CancellationTokenSource();
+    this.setRunning(scriptToRun, project, tokenSource);
+    let failure: Error | undefined;
     try {
-      const allCommands = await this.resolveScript(scriptToRun, project, []);
-      await TerminalService.instance.runInTerminal(allCommands, scriptToRun.terminal);
+      if (!this.meetsCondition(scriptToRun.when, scriptToRun, project)) {
+        LoggingService.instance.logInfo(`Skipped script "${scriptToRun.name}": its condition "${scriptToRun.when}" is false for project "${project.name}".`);
+        if (!scriptToRun.event) {
+          vscode.window.showInformationMessage(`ProDash: Script "${scriptToRun.name}" does not apply to project "${project.name}".`);
+        }
+        return;
+      }
+      const allProjectScripts = ScriptService.instance.getScripts(project.path);
+      const executionOrder = this.getExecutionOrder(scriptToRun, allProjectScripts, project);
+
+      const preparedRuns = new Map<string, PreparedRun>();
+      for (const script of executionOrder) {
+        // Skipped dependencies are not in the execution order
+        const dependencies = this.getDependencies(script, allProjectScripts).filter(d => executionOrder.includes(d));
+        const prepared = await this.prepareRun(script, project, dependencies, script === scriptToRun ? inputValues : undefined);
+        preparedRuns.set(script.name, script === scriptToRun ? prepared : { ...prepared, invokedScriptName: scriptToRun.name });
+      }
+
+      await this.runWithDependencies(scriptToRun, preparedRuns, new Map(), false, tokenSource);
     } catch (error: any) {
+      failure = error;
+      if (error instanceof ScriptCancelledError) {
+        LoggingService.instance.logInfo(error.message);
+        throw error;
+      }
       LoggingService.instance.logError(`Failed to execute script "${scriptToRun.name}": ${error.message}`);
-      vscode.window.showErrorMessage(`ProDash: Failed to execute script "${scriptToRun.name}". See output for details.`);
+      vscode.window.showErrorMessage(error instanceof VariableError || error instanceof WhenExpressionError || error instanceof ScriptInputError
+        ? `ProDash: Failed to execute script "${scriptToRun.name}": ${error.message}`
+        : `ProDash: Failed to execute script "${scriptToRun.name}". See output for details.`);
       // Re-throw to ensure the promise chain in the caller is rejected
       throw error;
+    } finally {
+      this.setRunning(scriptToRun, project, undefined, failure);
+      if (!cancellation) {
+        tokenSource.dispose();
+      }
+    }
+  }
+
+  /**
+   * Returns whether a script of a project is currently running, on its own or as a
+   * dependency of another script.
+   * @param script The script.
+   * @param project The project the script belongs to.
+   */
+  public isRunning(script: Script, project: Project): boolean {
+    return this.runningScripts.has(this.getRunKey(script, project));
+  }
+
+  /**
+   * Stops a running script: the running command is stopped and the remaining
+   * commands and scripts of the run are skipped.
+   * @param script The script to stop.
+   * @param project The project the script belongs to.
+   */
+  public stop(script: Script, project: Project): void {
+    const tokenSource = this.runningScripts.get(this.getRunKey(script, project));
+    if (tokenSource) {
+      LoggingService.instance.logInfo(`Stopping script "${script.name}" for project "${project.name}"...`);
+      tokenSource.cancel();
+    }
+  }
+
+  /**
+   * Marks a script as running with the source that stops it, or as stopped.
+   * @param error The error the script stopped with, so that runs waiting for it fail as well.
+   */
+  private setRunning(script: Script, project: Project, tokenSource: vscode.CancellationTokenSource | undefined, error?: Error): void {
+    const key = this.getRunKey(script, project);
+    if (tokenSource) {
+      this.runningScripts.set(key, tokenSource);
+      this.failedRuns.delete(key);
+    } else {
+      this.runningScripts.delete(key);
+      if (error) {
+        this.failedRuns.set(key, error);
+      }
+    }
+    this._onDidChangeRunningScripts.fire();
+  }
+
+  /**
+   * Returns the key that identifies a script of a project, e.g. to track its runs.
+   */
+  public getRunKey(script: Script, project: Project): string {
+    return `${project.path}::${script.name}`;
+  }
+
+  /**
+   * Determines the scripts a run consists of: the script and everything it depends on,
+   * including the dependencies of the scripts it calls through `{{RUN_SCRIPT:...}}`,
+   * dependencies first. Cycles through `dependsOn` or `{{RUN_SCRIPT:...}}` are rejected.
+   * A dependency whose `when` expression is false is skipped together with its own dependencies.
+   * @param script The script to run.
+   * @param allProjectScripts All scripts of the project.
+   * @param project The project, for the `when` expressions of the dependencies.
+   * @returns The scripts to run, each after its dependencies.
+   */
+  private getExecutionOrder(script: Script, allProjectScripts: Script[], project: Project): Script[] {
+    const findScript = (name: string, caller: Script): Script => {
+      const found = allProjectScripts.find(s => s.name === name);
+      if (!found) {
+        throw new Error(`Script "${caller.name}" depends on "${name}", which does not exist.`);
+      }
+      return found;
+    };
+
+    // Depth-first search; a script that is visited again while still on the path is part of a cycle.
+    // A script is searched only once, whether it is called or depended on, since searching it
+    // again finds no other cycles and dependencies.
+    const callStack: string[] = [];
+    const searched = new Set<string>();
+    const visited = new Set<string>();
+    const order: Script[] = [];
+    const visit = (current: Script, followDependencies: boolean) => {
+      const cycleStart = callStack.indexOf(current.name);
+      if (cycleStart >= 0) {
+        throw new Error(`Circular script dependency detected: ${[...callStack.slice(cycleStart), current.name].join(' → ')}.`);
+      }
+      if (searched.has(current.name)) {
+        if (followDependencies && !visited.has(current.name)) {
+          visited.add(current.name);
+          order.push(current);
+        }
+        return;
+      }
+      callStack.push(current.name);
+      const calledScripts = this.resolvePlatformVariant(current).steps
+        .map(s => s.command.match(/\{\{RUN_SCRIPT:([^}]+)\}\}/)?.[1])
+        .filter((name): name is string => !!name)
+        .map(name => allProjectScripts.find(s => s.name === name))
+        .filter((s): s is Script => !!s); // Missing scripts are reported when the commands are resolved
+      calledScripts.forEach(s => visit(s, false));
+      // The commands of a called script are inlined, but its dependencies run on their own
+      (current.dependsOn || [])
+        .map(name => findScript(name, current))
+        .filter(dependency => {
+          const applies = this.meetsCondition(dependency.when, dependency, project);
+          if (!applies) {
+            LoggingService.instance.logInfo(`Skipped script "${dependency.name}": its condition "${dependency.when}" is false for project "${project.name}".`);
+          }
+          return applies;
+        })
+        .forEach(dependency => visit(dependency, true));
+      callStack.pop();
+      searched.add(current.name);
+      if (followDependencies) {
+        visited.add(current.name);
+        order.push(current);
+      }
+    };
+    visit(script, true);
+    return order;
+  }
+
+  /**
+   * Returns the scripts that must run before a script: its `dependsOn` and, since their
+   * commands are inlined, the dependencies of the scripts it calls through `{{RUN_SCRIPT:...}}`.
+   * Cycles are detected beforehand, see {@link getExecutionOrder}.
+   * @param script The script.
+   * @param allProjectScripts All scripts of the project.
+   */
+  private getDependencies(script: Script, allProjectScripts: Script[]): Script[] {
+    const findScripts = (names: string[]) => names
+      .map(name => allProjectScripts.find(s => s.name === name))
+      .filter((s): s is Script => !!s);
+    const calledScripts = findScripts(this.resolvePlatformVariant(script).steps
+      .map(s => s.command.match(/\{\{RUN_SCRIPT:([^}]+)\}\}/)?.[1])
+      .filter((name): name is string => !!name));
+    return [...new Set([
+      ...findScripts(script.dependsOn || []),
+      ...calledScripts.flatMap(s => this.getDependencies(s, allProjectScripts)),
+    ])];
+  }
+
+  /**
+   * Runs a prepared script once all of its dependencies have run. If one of several parallel
+   * dependencies fails, the others are stopped and waited for before the error is passed on.
+   * A dependency that another run is already running is waited for instead of started again,
+   * and the script fails if the dependency fails there.
+   * @param script The script to run.
+   * @param preparedRuns The prepared runs of all scripts involved, by script name.
+   * @param runs The runs started so far, by script name, so that shared dependencies run once.
+   * @param inParallel Whether the script may run at the same time as other scripts.
+   * @param tokenSource The source that stops the run.
+   */
+  private runWithDependencies(script: Script, preparedRuns: Map<string, PreparedRun>, runs: Map<string, Promise<void>>, inParallel: boolean, tokenSource: vscode.CancellationTokenSource): Promise<void> {
+    let run = runs.get(script.name);
+    if (!run) {
+      run = (async () => {
+        const prepared = preparedRuns.get(script.name)!;
+        const runningSource = this.runningScripts.get(this.getRunKey(script, prepared.project));
+        if (runningSource && runningSource !== tokenSource) {
+          LoggingService.instance.logInfo(`Script "${script.name}" is already running; waiting for it to finish.`);
+          await this.waitUntilStopped(script, prepared.project, tokenSource.token);
+          return;
+        }
+
+        const dependencies = prepared.dependencies;
+        if (script.parallel) {
+          const parallel = inParallel || dependencies.length > 1;
+          const results = await Promise.allSettled(dependencies.map(d => this.runWithDependencies(d, preparedRuns, runs, parallel, tokenSource)
+            .catch(error => {
+              // Stop the other branches; they still hold the token source until they finish
+              tokenSource.cancel();
+              throw error;
+            })));
+          const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected').map(r => r.reason);
+          if (failures.length > 0) {
+            throw failures.find(e => !(e instanceof ScriptCancelledError)) ?? failures[0];
+          }
+        } else {
+          for (const dependency of dependencies) {
+            await this.runWithDependencies(dependency, preparedRuns, runs, inParallel, tokenSource);
+          }
+        }
+        if (tokenSource.token.isCancellationRequested) {
+          throw new ScriptCancelledError(script.name);
+        }
+        await this.runPrepared(prepared, inParallel, tokenSource);
+      })();
+      runs.set(script.name, run);
+    }
+    return run;
+  }
+
+  /**
+   * Waits until a script that another run is running has finished.
+   * @throws ScriptCancelledError if the waiting run is stopped in the meantime.
+   * @throws If the script failed or was stopped in the other run, so that the scripts
+   *         depending on it do not run.
+   */
+  private waitUntilStopped(script: Script, project: Project, token: vscode.CancellationToken): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const disposables: vscode.Disposable[] = [];
+      const finish = (error?: Error) => {
+        disposables.forEach(d => d.dispose());
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const finishIfStopped = () => {
+        if (!this.isRunning(script, project)) {
+          const failure = this.failedRuns.get(this.getRunKey(script, project));
+          finish(failure && new Error(`Script "${script.name}" did not succeed in another run: ${failure.message}`));
+        }
+      };
+      disposables.push(
+        this.onDidChangeRunningScripts(finishIfStopped),
+        token.onCancellationRequested(() => finish(new ScriptCancelledError(script.name))),
+      );
+      finishIfStopped();
+    });
+  }
+
+  /**
+   * Resolves everything a single script needs to run: its terminal, environment,
+   * working directory and commands (prompting for its inputs).
+   * @param script The script to prepare.
+   * @param project The project context for the script.
+   * @param dependencies The scripts that run before the script.
+   * @param inputValues Values for the inputs of the script that are not prompted for.
+   */
+  private async prepareRun(script: Script, project: Project, dependencies: Script[], inputValues?: Record<string, string>): Promise<PreparedRun> {
+    const { terminal } = this.resolvePlatformVariant(script);
+    const shell = TerminalService.instance.getShellProfile(terminal);
+    const env = this.resolveEnvironment(script, project);
+    const cwd = path.resolve(project.path, script.cwd || '.');
+    const commands = await this.resolveScript(script, project, env, shell, inputValues);
+    return { script, project, terminal, shell, env, cwd, commands, dependencies };
+  }
+
+  /**
+   * Runs the commands of a prepared script in a terminal or, with `"mode": "background"`,
+   * as child processes. The environment variables of the project and the script are applied
+   * to the run, which starts in the script's `cwd` (relative to the project path) or the
+   * project path. Every run is recorded in the run history.
+   * @param prepared The prepared script.
+   * @param inParallel Whether other scripts run at the same time; a terminal run then gets
+   *                   a terminal of its own.
+   * @param tokenSource The source that stops the run.
+   */
+  private async runPrepared(prepared: PreparedRun, inParallel: boolean, tokenSource: vscode.CancellationTokenSource): Promise<void> {
+    const { script, project, commands } = prepared;
+    if (commands.length === 0) {
+      return; // E.g. a script that only groups its dependencies
+    }
+
+    // A dependency shows as running too, and stopping it stops the whole run
+    const isDependency = !this.isRunning(script, project);
+    if (isDependency) {
+      this.setRunning(script, project, tokenSource);
+    }
+
+    let run: ScriptRun | undefined;
+    let failure: Error | undefined;
+    try {
+      const isBackground = script.mode === 'background';
+      run = await RunHistoryService.instance.startRun(script, project, commands, prepared.invokedScriptName);
+
+      let exitCode: number | undefined;
+      if (isBackground) {
+        exitCode = await ProcessService.instance.runInBackground(commands, {
+          name: `${script.name} (${project.name})`,
+          cwd: prepared.cwd,
+          shell: prepared.shell,
+          env: prepared.env,
+          logFile: run.logFile,
+        }, tokenSource.token);
+        LoggingService.instance.logInfo(`Script "${script.name}" finished with exit code ${exitCode}.`);
+      } else {
+        exitCode = await TerminalService.instance.runInTerminal(commands, {
+          project,
+          scriptName: script.name,
+          terminalType: prepared.terminal,
+          env: prepared.env,
+          cwd: prepared.cwd,
+          strategy: inParallel ? 'script' : (script.terminalStrategy ?? project.terminalStrategy),
+          reuse: script.reuseTerminal ?? project.reuseTerminal,
+          logFile: run.logFile,
+        }, tokenSource.token);
+      }
+      await RunHistoryService.instance.endRun(run, exitCode === undefined ? 'unknown' : 'succeeded', exitCode);
+    } catch (error: any) {
+      failure = error;
+      if (run) {
+        const status = error instanceof ScriptCancelledError ? 'cancelled' : 'failed';
+        const exitCode = error instanceof CommandFailedError ? error.exitCode : undefined;
+        await RunHistoryService.instance.endRun(run, status, exitCode, error.message);
+      }
+      if (!(error instanceof ScriptCancelledError)) {
+        LoggingService.instance.logError(`Script "${script.name}" failed: ${error.message}`);
+      }
+      throw error;
+    } finally {
+      if (isDependency) {
+        this.setRunning(script, project, undefined, failure);
+      }
+    }
+  }
+
+  /**
+   * Runs the script of a recorded run again, looking up the current definition of
+   * the script and project. A run of a dependency repeats the script it ran for, since
+   * a script without commands of its own is only recorded through its dependencies.
+   * @param run The recorded run to repeat.
+   */
+  public async rerun(run: ScriptRun): Promise<void> {
+    const project = ProjectService.instance.getProjects().find(p => p.path === run.projectPath);
+    if (!project) {
+      vscode.window.showErrorMessage(`ProDash: Project "${run.projectName}" is no longer available.`);
+      return;
+    }
+    const scriptName = run.invokedScriptName ?? run.scriptName;
+    const script = ScriptService.instance.getScripts(project.path).find(s => s.name === scriptName);
+    if (!script) {
+      vscode.window.showErrorMessage(`ProDash: Script "${scriptName}" no longer exists in project "${project.name}".`);
+      return;
+    }
+    await this.execute(script, project).catch(() => { /* Already reported by execute */ });
+  }
+
+  /**
+   * Finds a script given by name, e.g. from a keybinding or another extension.
+   * @param args The script and its project (the current project if omitted).
+   * @throws ScriptNotFoundError if the project or the script is not found.
+   */
+  public findByName(args: RunScriptArgs): { script: Script; project: Project } {
+    const project = args.project ? ProjectService.instance.findProject(args.project) : ProjectService.instance.currentProject;
+    if (!project) {
+      throw new ScriptNotFoundError(args.project ? `Project "${args.project}" not found.` : 'No project is open.');
+    }
+    const script = ScriptService.instance.getScripts(project.path).find(s => s.name === args.script);
+    if (!script) {
+      throw new ScriptNotFoundError(`Script "${args.script}" not found in project "${project.name}".`);
+    }
+    return { script, project };
+  }
+
+  /**
+   * Runs a script given by name, e.g. from a keybinding or another extension.
+   * @param args The script, its project (the current project if omitted) and values for its inputs.
+   * @throws ScriptNotFoundError if the project or the script is not found, or the error of a failed run.
+   */
+  public async runByName(args: RunScriptArgs): Promise<void> {
+    const { script, project } = this.findByName(args);
+    const inputValues = Object.fromEntries(Object.entries(args.args || {}).map(([name, value]) => [name, String(value)]));
+    await this.execute(script, project, undefined, inputValues);
+  }
+
+  /**
+   * Picks the steps and terminal of a script for the current operating system.
+   * A `windows`, `linux` or `darwin` entry takes precedence over the generic `script`,
+   * and `terminal` may map each operating system to a different terminal type.
+   * Plain commands become steps without a condition.
+   * @param script The script to run.
+   * @returns The steps and the terminal type to run them with.
+   * @throws If the script has no commands for the current operating system, unless it
+   *         only groups the scripts it depends on.
+   */
+  public resolvePlatformVariant(script: Script): { steps: ScriptStep[]; terminal?: string } {
+    const platform = this.getPlatform();
+    const commands = (platform && script[platform]) ?? script.script ?? (script.dependsOn?.length ? [] : undefined);
+    if (commands === undefined) {
+      const platformName = platform ?? process.platform;
+      throw new Error(`Script "${script.name}" has no commands for ${platformName}. Add a "script" or "${platformName}" entry.`);
+    }
+
+    const terminal = typeof script.terminal === 'object'
+      ? (platform ? script.terminal[platform] : undefined)
+      : script.terminal;
+    const steps = (Array.isArray(commands) ? commands : [commands])
+      .map(step => typeof step === 'string' ? { command: step } : step)
+      .filter(step => typeof step?.command === 'string');
+    return { steps, terminal };
+  }
+
+  /**
+   * Returns whether a script applies to a project, that is, whether its `when` expression
+   * is true. A script with an invalid expression applies, so that it is shown and the
+   * error is reported when it runs.
+   * @param script The script.
+   * @param project The project.
+   */
+  public appliesTo(script: Script, project: Project): boolean {
+    try {
+      return this.meetsCondition(script.when, script, project);
+    } catch (error) {
+      return true;
+    }
+  }
+
+  /**
+   * Evaluates the `when` expression of a script or one of its steps.
+   * @param when The expression; a missing expression is true.
+   * @param script The script, which determines the environment and the variables.
+   * @param project The project, whose folder `exists()` paths are relative to.
+   * @param env The environment variables of the run; they are only resolved if the expression uses them.
+   * @throws WhenExpressionError if the expression has a syntax error.
+   */
+  private meetsCondition(when: string | undefined, script: Script, project: Project, env?: Record<string, string>): boolean {
+    if (!when) {
+      return true;
+    }
+    let expression: WhenExpression;
+    try {
+      expression = parseWhenExpression(when);
+    } catch (error) {
+      if (error instanceof WhenExpressionError) {
+        throw new WhenExpressionError(`Invalid condition "${when}": ${error.message}`, error.offset, error.length);
+      }
+      throw error;
+    }
+    // The branch and the environment are only looked up if the expression uses them
+    let runEnv = env;
+    const getGitBranch = () => this.getGitBranch(project) ?? '';
+    return evaluateWhenExpression(expression, {
+      os: this.getPlatform() ?? process.platform,
+      get branch() {
+        return getGitBranch();
+      },
+      exists: relativePath => fs.existsSync(path.resolve(project.path, relativePath)),
+      env: name => {
+        runEnv ??= this.resolveEnvironment(script, project);
+        return runEnv[name] ?? process.env[name];
+      },
+      variable: name => this.previewVariable(name, undefined, script, project),
+    });
+  }
+
+  private getPlatform(): ScriptPlatform | undefined {
+    switch (process.platform) {
+      case 'win32':
+        return 'windows';
+      case 'linux':
+        return 'linux';
+      case 'darwin':
+        return 'darwin';
+      default:
+        return undefined;
     }
   }
 
+  /**
+   * Builds the environment variables of a run by layering, in this order, the project's
+   * `envFile` and `env`, then the script's `envFile` and `env`. Relative `envFile` paths
+   * are resolved against the project path.
+   * @param script The script to run.
+   * @param project The project context.
+   * @returns The variables to add to the environment of the terminal or process.
+   */
+  private resolveEnvironment(script: Script, project: Project): Record<string, string> {
+    const readEnvFileOf = (owner: string, envFile: string | undefined): Record<string, string> => {
+      if (!envFile) {
+        return {};
+      }
+      const envFilePath = path.resolve(project.path, envFile);
+      const variables = readEnvFile(envFilePath);
+      if (Object.keys(variables).length === 0) {
+        LoggingService.instance.logWarning(`The env file '${envFilePath}' of ${owner} is missing or empty.`);
+      }
+      return variables;
+    };
+
+    return {
+      ...readEnvFileOf(`project '${project.name}'`, project.envFile),
+      ...project.env,
+      ...readEnvFileOf(`script '${script.name}'`, script.envFile),
+      ...script.env,
+    };
+  }
+
   /**
    * Safely resolves a path variable for script execution.
-   * Returns an empty string for undefined paths and normalizes separators to forward slashes.
+   * Returns undefined for undefined paths, so that the variable fails the run. Separators are
+   * normalized to backslashes for cmd-style shells and to forward slashes for all others.
    * @param path The path to resolve.
+   * @param shell The shell the path is used in.
    */
-  private getSafePath(path: string | undefined): string {
+  private getSafePath(path: string | undefined, shell: ShellProfile): string | undefined {
     if (!path) {
-      return '';
+      return undefined;
+    }
+    if (shell.quoting === 'cmd') {
+      return path.replace(/\//g, '\\');
     }
     // Normalize to forward slashes for better cross-shell compatibility (especially with PowerShell and Git Bash)
     return path.replace(/\\/g, '/');
   }
 
   /**
-   * Replaces known placeholders in a command string with their actual values from the project.
+   * Replaces the placeholders in a command string with their values. User-defined variables
+   * take precedence over the built-in ones and may use other variables themselves.
+   * `{{INPUT:name}}` placeholders are replaced with the values entered for the script's inputs,
+   * and `{{ENV:NAME}}` placeholders with the environment variables of the run.
    * @param command The command string containing potential placeholders.
    * @param project The project context.
+   * @param context The input values, environment and variables of the run.
+   * @param resolving The user-defined variables being resolved, to detect cycles.
    * @returns The command with all placeholders resolved.
+   * @throws VariableError if a variable is unknown, has no value or refers to itself.
    */
-  private resolveVariables(command: string, project: Project): string {
-    // Using a regex to find all placeholders like {{VAR_NAME}}
-    return command.replace(/\{\{([A-Z_]+)\}\}/g, (match, variableName) => {
-      switch (variableName) {
-        case 'PROJECT_PATH':
-          return this.getSafePath(project.path);
-        case 'PRODASH_PATH':
-          return this.getSafePath(project.proDashPath);
-        case 'GLOBALCONFIG_PATH':
-          return this.getSafePath(ProjectService.instance.globalConfigurationPath);
-        case 'DESCRIPTION_FILE':
-          return this.getSafePath(project.descriptionFile);
-        case 'LONGDESCRIPTION_FILE':
-          return this.getSafePath(project.longDescriptionFile);
-        case 'FULLDESCRIPTION_FILE':
-          return this.getSafePath(project.fullDescriptionFile);
-        default:
-          LoggingService.instance.logWarning(`Could not resolve variable '${match}'`);
-          return match; // Return the original placeholder if not found
+  private resolveVariables(command: string, project: Project, context: VariableContext, resolving: string[] = []): string {
+    // Using a regex to find all placeholders like {{name}} or {{NAME:argument}}
+    return command.replace(/\{\{([A-Za-z_][A-Za-z0-9_]*)(?::([^}]+))?\}\}/g, (match, variableName, argument) => {
+      if (argument === undefined && Object.prototype.hasOwnProperty.call(context.variables, variableName)) {
+        if (resolving.includes(variableName)) {
+          throw new VariableError(`Variable "${variableName}" refers to itself: ${[...resolving, variableName].join(' → ')}.`);
+        }
+        return this.resolveVariables(String(context.variables[variableName]), project, context, [...resolving, variableName]);
+      }
+
+      const value = this.resolveVariable(variableName, argument, project, context);
+      if (value === undefined) {
+        throw new VariableError(scriptVariables[variableName]
+          ? `Variable "${match}" has no value for project "${project.name}". ${scriptVariables[variableName].description}`
+          : `Variable "${match}" is not defined. Define it in the "variables" of the script or the project, or in "_variables" of projects.jsonc.`);
       }
+      return value;
     });
   }
 
+  /**
+   * Returns the value of one built-in placeholder, or undefined if it is unknown or cannot be resolved.
+   * @param variableName The name of the variable, like `PROJECT_PATH` or `ENV`.
+   * @param argument The argument after the colon, like the variable name of `{{ENV:NAME}}`.
+   * @param project The project context.
+   * @param context The input values and environment of the run.
+   */
+  private resolveVariable(variableName: string, argument: string | undefined, project: Project, context: VariableContext): string | undefined {
+    const editor = vscode.window.activeTextEditor;
+    const editorFile = editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+    switch (variableName) {
+      case 'INPUT':
+        return argument !== undefined ? context.inputValues[argument] : undefined;
+      case 'ENV':
+        return argument !== undefined ? (context.env[argument] ?? process.env[argument]) : undefined;
+      case 'PROJECT_PATH':
+        return this.getSafePath(project.path, context.shell);
+      case 'PROJECT_NAME':
+        return project.name;
+      case 'PROJECT_GROUP':
+        return project.group || 'Uncategorized';
+      case 'PRODASH_PATH':
+        return this.getSafePath(project.proDashPath, context.shell);
+      case 'GLOBALCONFIG_PATH':
+        return this.getSafePath(ProjectService.instance.globalConfigurationPath, context.shell);
+      case 'DESCRIPTION_FILE':
+        return this.getSafePath(project.descriptionFile, context.shell);
+      case 'LONGDESCRIPTION_FILE':
+        return this.getSafePath(project.longDescriptionFile, context.shell);
+      case 'FULLDESCRIPTION_FILE':
+        return this.getSafePath(project.fullDescriptionFile, context.shell);
+      case 'FILE':
+        return editorFile && this.getSafePath(editorFile, context.shell);
+      case 'FILE_DIR':
+        return editorFile && this.getSafePath(path.dirname(editorFile), context.shell);
+      case 'SELECTED_TEXT':
+        return editor && editor.document.getText(editor.selection);
+      case 'LINE':
+        return editor && String(editor.selection.active.line + 1);
+      case 'WORKSPACE_FOLDER': {
+        const folder = (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)) ?? vscode.workspace.workspaceFolders?.[0];
+        return folder && this.getSafePath(folder.uri.fsPath, context.shell);
+      }
+      case 'GIT_BRANCH':
+        return this.getGitBranch(project);
+      case 'DATE': {
+        const now = new Date();
+        return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Returns the current branch of the project's repository, or the abbreviated commit if no
+   * branch is checked out. HEAD is read directly, so no git process is started.
+   */
+  private getGitBranch(project: Project): string | undefined {
+    const headFile = project.gitPath && path.join(project.gitPath, 'HEAD');
+    if (!headFile || !fs.existsSync(headFile)) {
+      return undefined;
+    }
+    const head = fs.readFileSync(headFile, 'utf8').trim();
+    return head.startsWith('ref: refs/heads/') ? head.slice('ref: refs/heads/'.length) : head.slice(0, 7);
+  }
+
+  /**
+   * Merges the user-defined variables of a script: the global `_variables` of projects.jsonc,
+   * overridden by the variables of the project, overridden by those of the script.
+   */
+  private getUserVariables(script: Script, project: Project): Record<string, string> {
+    return { ...ProjectService.instance.variables, ...project.variables, ...script.variables };
+  }
+
+  /**
+   * Resolves a single placeholder the way a run of the script would, without running it.
+   * Inputs are not prompted for, so `{{INPUT:...}}` placeholders are not resolved. The environment
+   * is read once per script until the projects are reloaded or a file is saved, since
+   * placeholders are previewed on every hover.
+   * @param variableName The name of the variable, like `PROJECT_PATH`, `ENV` or a user-defined one.
+   * @param argument The argument after the colon, like the variable name of `{{ENV:NAME}}`.
+   * @param script The script the placeholder is used in; it determines the environment, the shell and the user-defined variables.
+   * @param project The project context.
+   * @returns The value, or undefined if the placeholder cannot be resolved.
+   */
+  public previewVariable(variableName: string, argument: string | undefined, script: Script, project: Project): string | undefined {
+    let shell: ShellProfile;
+    try {
+      shell = TerminalService.instance.getShellProfile(this.resolvePlatformVariant(script).terminal);
+    } catch (error) {
+      // An unknown terminal is reported when the script runs; preview with the default shell
+      shell = TerminalService.instance.getShellProfile();
+    }
+    const context = { inputValues: {}, env: this.getPreviewEnvironment(script, project), shell, variables: this.getUserVariables(script, project) };
+    try {
+      return this.resolveVariables(`{{${variableName}${argument !== undefined ? `:${argument}` : ''}}}`, project, context);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the environment of a script for previews, from the cache if the script's own
+   * environment settings did not change.
+   */
+  private getPreviewEnvironment(script: Script, project: Project): Record<string, string> {
+    let environments = this.previewEnvironments.get(project);
+    if (!environments) {
+      environments = new Map();
+      this.previewEnvironments.set(project, environments);
+    }
+    const key = JSON.stringify([script.name, script.env, script.envFile]);
+    let env = environments.get(key);
+    if (!env) {
+      env = this.resolveEnvironment(script, project);
+      environments.set(key, env);
+    }
+    return env;
+  }
+
   /**
    * Recursively resolves a script's commands, including expanding `RUN_SCRIPT` directives.
+   * The inputs of each script are prompted for before its commands are resolved. Steps and
+   * called scripts whose `when` expression is false are skipped.
+   * Cycles are detected beforehand, see {@link getExecutionOrder}.
    * @param script The script to resolve.
    * @param project The project context.
-   * @param seenScripts A set to track scripts already being resolved to prevent infinite recursion.
+   * @param env The environment variables of the run, used for `{{ENV:NAME}}` placeholders.
+   * @param shell The shell the commands run in, used to format path placeholders.
+   * @param givenInputValues Values for the inputs of the script that are not prompted for.
    * @returns A promise that resolves to a flat array of command strings.
    */
-  private async resolveScript(script: Script, project: Project, seenScripts: string[]): Promise<string[]> {
-    if (seenScripts.includes(script.name)) {
-      throw new Error(`Recursive script execution detected: "${script.name}" was called again.`);
+  private async resolveScript(script: Script, project: Project, env: Record<string, string>, shell: ShellProfile, givenInputValues?: Record<string, string>): Promise<string[]> {
+    const inputValues = await ScriptInputService.instance.promptForInputs(script, project, givenInputValues);
+    if (!inputValues) {
+      throw new ScriptCancelledError(script.name);
     }
-    seenScripts.push(script.name);
 
-    const commands = Array.isArray(script.script) ? script.script : [script.script];
+    const { steps, terminal: scriptTerminal } = this.resolvePlatformVariant(script);
     const resolvedCommands: string[] = [];
 
-    for (const command of commands) {
+    for (const { command, when } of steps) {
+      if (!this.meetsCondition(when, script, project, env)) {
+        LoggingService.instance.logInfo(`Skipped step "${command}" of script "${script.name}": its condition "${when}" is false.`);
+        continue;
+      }
       const runScriptMatch = command.match(/\{\{RUN_SCRIPT:([^}]+)\}\}/);
       if (runScriptMatch) {
         const scriptNameToRun = runScriptMatch[1];
@@ -111,18 +816,22 @@ export class ScriptExecutionService {
         }
 
         // Prevent calling scripts with different terminal types.
-        const parentTerminal = script.terminal || 'default';
-        const childTerminal = nextScript.terminal || 'default';
+        const parentTerminal = scriptTerminal || 'default';
+        const childTerminal = this.resolvePlatformVariant(nextScript).terminal || 'default';
 
         if (parentTerminal !== childTerminal) {
           throw new Error(`Script "${script.name}" (terminal: ${parentTerminal}) cannot call script "${nextScript.name}" (terminal: ${childTerminal}). Terminal types must match.`);
         }
+        if (!this.meetsCondition(nextScript.when, nextScript, project, env)) {
+          LoggingService.instance.logInfo(`Skipped script "${nextScript.name}": its condition "${nextScript.when}" is false for project "${project.name}".`);
+          continue;
+        }
 
-        const nestedCommands = await this.resolveScript(nextScript, project, [...seenScripts]);
+        const nestedCommands = await this.resolveScript(nextScript, project, env, shell);
         resolvedCommands.push(...nestedCommands);
       } else {
         // Resolve all other variables in the command line
-        resolvedCommands.push(this.resolveVariables(command, project));
+        resolvedCommands.push(this.resolveVariables(command, project, { inputValues, env, shell, variables: this.getUserVariables(script, project) }));
       }
     }
     return resolvedCommands;
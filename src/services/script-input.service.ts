@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { Project, Script, ScriptInput } from '../types';
+import { StateService } from './state.service';
+import { ScriptInputError } from '../errors';
+
+const lastInputValuesKey = 'prodash.lastInputValues';
+
+/**
+ * A singleton service that asks the user for the values of a script's input parameters.
+ * The values entered last are remembered per project and script and offered as defaults
+ * for the next run.
+ */
+export class ScriptInputService {
+  private static _instance: ScriptInputService;
+
+  private constructor() { }
+
+  public static get instance(): ScriptInputService {
+    if (!ScriptInputService._instance) {
+      ScriptInputService._instance = new ScriptInputService();
+    }
+    return ScriptInputService._instance;
+  }
+
+  /**
+   * Prompts for every input declared by the script, one after the other.
+   * @param script The script whose inputs are prompted for.
+   * @param project The project the script runs for.
+   * @param givenValues Values passed by the caller; inputs with a value are validated instead of prompted for.
+   * @returns The entered values by input name, or undefined if the user cancelled a prompt.
+   * @throws ScriptInputError if the `pattern` of an input is not a valid regular expression.
+   * @throws If a given value is not valid for its input.
+   */
+  public async promptForInputs(script: Script, project: Project, givenValues: Record<string, string> = {}): Promise<Record<string, string> | undefined> {
+    const inputs = script.inputs || [];
+    const values: Record<string, string> = {};
+    if (inputs.length === 0) {
+      return values;
+    }
+
+    // The patterns are compiled once, instead of on every keystroke in the input box
+    const patterns = new Map(inputs.map(input => [input.name, compileInputPattern(input, script.name)]));
+    const lastValues = this.getLastValues(script, project);
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+      const pattern = patterns.get(input.name);
+      if (givenValues[input.name] !== undefined) {
+        const error = this.validateValue(input, givenValues[input.name], pattern);
+        if (error) {
+          throw new Error(`Invalid argument for script "${script.name}": ${error}`);
+        }
+        values[input.name] = givenValues[input.name];
+        continue;
+      }
+      const defaultValue = lastValues[input.name] ?? (input.default !== undefined ? String(input.default) : undefined);
+      const title = `${script.name} (${i + 1}/${inputs.length}): ${input.description || input.name}`;
+
+      const value = await this.promptForInput(input, title, defaultValue, pattern);
+      if (value === undefined) {
+        return undefined;
+      }
+      values[input.name] = value;
+    }
+
+    await this.saveLastValues(script, project, values);
+    return values;
+  }
+
+  private async promptForInput(input: ScriptInput, title: string, defaultValue: string | undefined, pattern: RegExp | undefined): Promise<string | undefined> {
+    switch (input.type) {
+      case 'boolean':
+        return this.pickValue(title, ['true', 'false'], defaultValue, this.getIconPath('boolean'));
+      case 'pick':
+        return this.pickValue(title, input.options || [], defaultValue, this.getIconPath('string'));
+      case 'number':
+        return vscode.window.showInputBox({
+          title,
+          value: defaultValue,
+          prompt: input.name,
+          ignoreFocusOut: true,
+          validateInput: value => this.validateNumber(input, value),
+        });
+      default:
+        return vscode.window.showInputBox({
+          title,
+          value: defaultValue,
+          prompt: input.name,
+          ignoreFocusOut: true,
+          validateInput: value => this.validateString(input, value, pattern),
+        });
+    }
+  }
+
+  private async pickValue(title: string, options: string[], defaultValue: string | undefined, iconPath: vscode.IconPath | undefined): Promise<string | undefined> {
+    // Offer the default first so that Enter accepts it
+    const sortedOptions = defaultValue !== undefined && options.includes(defaultValue)
+      ? [defaultValue, ...options.filter(o => o !== defaultValue)]
+      : options;
+    const items: vscode.QuickPickItem[] = sortedOptions.map(o => ({
+      label: o,
+      description: o === defaultValue ? '(last used)' : undefined,
+      iconPath,
+    }));
+    const selection = await vscode.window.showQuickPick(items, { title, ignoreFocusOut: true });
+    return selection?.label;
+  }
+
+  private validateValue(input: ScriptInput, value: string, pattern: RegExp | undefined): string | undefined {
+    switch (input.type) {
+      case 'boolean':
+        return ['true', 'false'].includes(value) ? undefined : `'${input.name}' must be true or false.`;
+      case 'pick':
+        return (input.options || []).includes(value) ? undefined : `'${input.name}' must be one of ${(input.options || []).join(', ')}.`;
+      case 'number':
+        return this.validateNumber(input, value);
+      default:
+        return this.validateString(input, value, pattern);
+    }
+  }
+
+  private validateString(input: ScriptInput, value: string, pattern: RegExp | undefined): string | undefined {
+    if (input.required && !value) {
+      return `'${input.name}' is required.`;
+    }
+    if (pattern && value && !pattern.test(value)) {
+      return `'${input.name}' must match the pattern ${input.pattern}.`;
+    }
+    return undefined;
+  }
+
+  private validateNumber(input: ScriptInput, value: string): string | undefined {
+    if (!value) {
+      return input.required ? `'${input.name}' is required.` : undefined;
+    }
+    const num = Number(value);
+    if (isNaN(num)) {
+      return `'${input.name}' must be a number.`;
+    }
+    if (input.min !== undefined && num < input.min) {
+      return `'${input.name}' must be at least ${input.min}.`;
+    }
+    if (input.max !== undefined && num > input.max) {
+      return `'${input.name}' must be at most ${input.max}.`;
+    }
+    return undefined;
+  }
+
+  private getIconPath(type: 'string' | 'boolean'): vscode.IconPath | undefined {
+    const extensionUri = StateService.instance.extensionUri;
+    if (!extensionUri) {
+      return undefined;
+    }
+    return {
+      light: vscode.Uri.joinPath(extensionUri, 'media', `${type}-light.svg`),
+      dark: vscode.Uri.joinPath(extensionUri, 'media', `${type}-dark.svg`),
+    };
+  }
+
+  private getLastValues(script: Script, project: Project): Record<string, string> {
+    const allValues = StateService.instance.getGlobal<Record<string, Record<string, string>>>(lastInputValuesKey, {});
+    return allValues[this.getStateKey(script, project)] || {};
+  }
+
+  private async saveLastValues(script: Script, project: Project, values: Record<string, string>): Promise<void> {
+    const allValues = StateService.instance.getGlobal<Record<string, Record<string, string>>>(lastInputValuesKey, {});
+    allValues[this.getStateKey(script, project)] = values;
+    await StateService.instance.updateGlobal(lastInputValuesKey, allValues);
+  }
+
+  private getStateKey(script: Script, project: Project): string {
+    return `${project.path}::${script.name}`;
+  }
+}
+
+/**
+ * Compiles the `pattern` of a string input.
+ * @param input The input.
+ * @param scriptName The name of the script, for the error message.
+ * @returns The regular expression, or undefined if the input has no pattern.
+ * @throws ScriptInputError if the pattern is not a valid regular expression.
+ */
+function compileInputPattern(input: ScriptInput, scriptName: string): RegExp | undefined {
+  if (!input.pattern || (input.type && input.type !== 'string')) {
+    return undefined;
+  }
+  try {
+    return new RegExp(input.pattern);
+  } catch (error) {
+    throw new ScriptInputError(`The pattern of input '${input.name}' of script "${scriptName}" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,4 +1,5 @@
 import * as path from 'path';
+import * as os from 'os';
 import { Script, ScriptGroups } from '../types';
 import { ConfigurationService } from './configuration.service';
 import { proDashFolderName, scriptsJsoncFileName } from '../constants';
@@ -8,8 +9,11 @@ import { proDashFolderName, scriptsJsoncFileName } from '../constants';
  */
 export class ScriptService {
   private static _instance: ScriptService;
+  private _globalScriptsFile: string;
 
-  private constructor() { }
+  private constructor() {
+    this._globalScriptsFile = path.join(os.homedir(), proDashFolderName, scriptsJsoncFileName);
+  }
 
   public static get instance(): ScriptService {
     if (!ScriptService._instance) {
@@ -18,15 +22,48 @@ export class ScriptService {
     return ScriptService._instance;
   }
 
+  /**
+   * Gets the path of the global `scripts.jsonc` file, whose scripts are shared by all projects.
+   */
+  public get globalScriptsFileNameAndPath(): string {
+    return this._globalScriptsFile;
+  }
+
+  /**
+   * Gets the path of the `scripts.jsonc` file of a project.
+   * @param projectPath The absolute path to the project directory.
+   */
+  public getScriptsFile(projectPath: string): string {
+    return path.join(projectPath, proDashFolderName, scriptsJsoncFileName);
+  }
+
   /**
    * Loads all scripts for a given project, including those intended to be hidden from the UI.
+   * The scripts of the global `scripts.jsonc` file are merged in and flagged with `isGlobal`;
+   * a project script overrides a global script with the same name.
    * The consumer (e.g., the TreeView) is responsible for filtering out scripts based on the
    * 'hidden' property or names prefixed with an underscore (_).
    * @param projectPath The absolute path to the project directory.
    * @returns An array of all scripts defined for the project.
    */
   public getScripts(projectPath: string): Script[] {
-    const scriptsFile = path.join(projectPath, proDashFolderName, scriptsJsoncFileName);
+    const scriptsFile = this.getScriptsFile(projectPath);
+    const projectScripts = scriptsFile !== this._globalScriptsFile ? this.loadScripts(scriptsFile) : [];
+    const projectScriptNames = new Set(projectScripts.map(s => s.name));
+
+    const globalScripts = this.getGlobalScripts().filter(s => !projectScriptNames.has(s.name));
+
+    return [...projectScripts, ...globalScripts];
+  }
+
+  /**
+   * Loads the scripts of the global `scripts.jsonc` file, flagged with `isGlobal`.
+   */
+  public getGlobalScripts(): Script[] {
+    return this.loadScripts(this._globalScriptsFile).map(s => ({ ...s, isGlobal: true }));
+  }
+
+  private loadScripts(scriptsFile: string): Script[] {
     const scriptsData = ConfigurationService.instance.loadConfiguration<Script[] | ScriptGroups>(scriptsFile);
 
     if (!scriptsData) {
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+
+/**
+ * A singleton service that gives the other services access to the extension's
+ * persistent storage (global and workspace state) and installation folder.
+ * It must be initialized with the extension context before it is used.
+ */
+export class StateService {
+  private static _instance: StateService;
+  private _context: vscode.ExtensionContext | undefined;
+
+  private constructor() { }
+
+  /**
+   * Gets the singleton instance of the StateService.
+   */
+  public static get instance(): StateService {
+    if (!StateService._instance) {
+      StateService._instance = new StateService();
+    }
+    return StateService._instance;
+  }
+
+  /**
+   * Initializes the service with the extension context.
+   * @param context The VS Code extension context.
+   */
+  public init(context: vscode.ExtensionContext): void {
+    this._context = context;
+  }
+
+  /**
+   * Gets the URI of the folder the extension is installed in.
+   */
+  public get extensionUri(): vscode.Uri | undefined {
+    return this._context?.extensionUri;
+  }
+
+  /**
+   * Gets the path of the folder in which the extension can store its own files, like run logs.
+   */
+  public get storagePath(): string | undefined {
+    return this._context?.globalStorageUri.fsPath;
+  }
+
+  /**
+   * Reads a value from the global (cross-workspace) state.
+   * @param key The key of the value.
+   * @param defaultValue The value returned when nothing is stored for the key.
+   */
+  public getGlobal<T>(key: string, defaultValue: T): T {
+    return this._context?.globalState.get<T>(key) ?? defaultValue;
+  }
+
+  /**
+   * Stores a value in the global (cross-workspace) state.
+   * @param key The key of the value.
+   * @param value The value to store, or undefined to remove it.
+   */
+  public async updateGlobal<T>(key: string, value: T | undefined): Promise<void> {
+    await this._context?.globalState.update(key, value);
+  }
+
+  /**
+   * Reads a value from the state of the current workspace.
+   * @param key The key of the value.
+   * @param defaultValue The value returned when nothing is stored for the key.
+   */
+  public getWorkspace<T>(key: string, defaultValue: T): T {
+    return this._context?.workspaceState.get<T>(key) ?? defaultValue;
+  }
+
+  /**
+   * Stores a value in the state of the current workspace.
+   * @param key The key of the value.
+   * @param value The value to store, or undefined to remove it.
+   */
+  public async updateWorkspace<T>(key: string, value: T | undefined): Promise<void> {
+    await this._context?.workspaceState.update(key, value);
+  }
+}
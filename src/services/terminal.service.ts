@@ -1,5 +1,58 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { LoggingService } from './logging.service';
+import { CommandFailedError, ScriptCancelledError } from '../errors';
+import { Project, ShellProfile, TerminalStrategy } from '../types';
+import { ProjectService } from './project.service';
+
+/**
+ * The shells that can be used as `terminal` of a script without further configuration.
+ */
+const builtInShellProfiles: Record<string, ShellProfile> = {
+  default: {},
+  bash: { shellPath: 'bash', quoting: 'posix' },
+  zsh: { shellPath: 'zsh', quoting: 'posix' },
+  sh: { shellPath: 'sh', quoting: 'posix' },
+  cmd: { shellPath: 'cmd.exe', quoting: 'cmd' },
+  batch: { shellPath: 'cmd.exe', quoting: 'cmd' },
+  pwsh: { shellPath: 'pwsh', quoting: 'powershell' },
+  powershell: { shellPath: 'powershell', quoting: 'powershell' },
+};
+
+/**
+ * Matches the escape sequences of terminal output, like colors and cursor movements.
+ */
+const terminalEscapeSequences = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[=>]/g;
+
+/**
+ * Options for running script lines in a terminal.
+ */
+export interface TerminalRunOptions {
+  /** The project the lines run for. */
+  project: Project;
+  /** The name of the script the lines belong to. */
+  scriptName: string;
+  /** The name of the shell profile to use (e.g. 'bash', 'powershell', or default). */
+  terminalType?: string;
+  /** Variables added to the environment of the terminal. */
+  env?: Record<string, string>;
+  /** The directory the lines run in. */
+  cwd: string;
+  /** Which runs share the terminal; 'shared' if omitted. */
+  strategy?: TerminalStrategy;
+  /** Whether an existing terminal is reused (default) or replaced by a new one. */
+  reuse?: boolean;
+  /** A file the output is also written to. The output can only be read with shell integration. */
+  logFile?: string;
+}
+
+/**
+ * What the service knows about a terminal it created.
+ */
+interface TerminalInfo {
+  key: string;
+  projectPath?: string; /* Undefined for shared terminals */
+}
 
 /**
  * A service for managing and interacting with VS Code terminals for script execution.
@@ -8,8 +61,11 @@ import { LoggingService } from './logging.service';
 export class TerminalService {
   private static _instance: TerminalService;
   private warnedAboutFallback = false;
+  private terminalInfos: Map<vscode.Terminal, TerminalInfo> = new Map();
 
-  private constructor() { }
+  private constructor() {
+    vscode.window.onDidCloseTerminal(t => this.terminalInfos.delete(t));
+  }
 
   /**
    * Gets the singleton instance of the TerminalService.
@@ -23,57 +79,183 @@ export class TerminalService {
 
   /**
    * Executes a series of script lines in a dedicated terminal.
-   * It finds an existing terminal or creates a new one based on the specified shell type.
+   * It finds an existing terminal or creates a new one based on the terminal strategy and
+   * the specified shell type. A terminal is only reused by runs with the same environment
+   * variables, so that the variables of one project do not leak into the runs of another.
+   * A new terminal starts in the working directory of the run; a reused one changes to it first.
+   * When the run is cancelled, Ctrl+C is sent to the terminal and the remaining lines are skipped.
+   * With shell integration, the output is also written to the log file of the run, if one is given.
    * @param scriptLines The array of command lines to execute.
-   * @param terminalType The type of terminal to use ('batch', 'powershell', or default).
+   * @param options The options of the run.
+   * @param token A token that cancels the run.
+   * @returns 0 when every line succeeded, or undefined when the exit codes are unknown
+   *          because shell integration is not available.
    */
-  public async runInTerminal(scriptLines: string[], terminalType?: string): Promise<void> {
-    const terminal = await this.getTerminal(terminalType);
+  public async runInTerminal(scriptLines: string[], options: TerminalRunOptions, token?: vscode.CancellationToken): Promise<number | undefined> {
+    const { terminal, isNew } = this.getTerminal(options);
     const hasShellIntegration = await this.waitForShellIntegration(terminal);
+    let exitCodesKnown = true;
 
-    for (const line of scriptLines) {
-      if (hasShellIntegration && terminal.shellIntegration) {
-        const execution = terminal.shellIntegration.executeCommand(line);
-        await new Promise<void>((resolve, reject) => {
-          const disposable = vscode.window.onDidEndTerminalShellExecution(e => {
-            if (e.execution === execution) {
+    const lines = isNew ? scriptLines : [this.getChangeDirectoryCommand(options.terminalType, options.cwd), ...scriptLines];
+    const logStream = options.logFile && hasShellIntegration ? fs.createWriteStream(options.logFile, { flags: 'w' }) : undefined;
+    logStream?.on('error', error => LoggingService.instance.logWarning(`Could not write run log ${options.logFile}: ${error.message}`));
+    try {
+      for (const line of lines) {
+        if (token?.isCancellationRequested) {
+          throw new ScriptCancelledError(options.scriptName);
+        }
+        if (hasShellIntegration && terminal.shellIntegration) {
+          const execution = terminal.shellIntegration.executeCommand(line);
+          const output = logStream ? this.writeOutput(execution, line, logStream) : undefined;
+          await new Promise<void>((resolve, reject) => {
+            const cancellation = token?.onCancellationRequested(() => {
               disposable.dispose();
-              // A non-zero exit code indicates an error. Undefined can happen on cancellation (e.g., Ctrl+C).
-              // We will treat undefined as an error to halt the script sequence.
-              if (e.exitCode === 0) {
-                resolve();
-              } else {
-                reject(new Error(`Command "${line}" exited with code ${e.exitCode ?? 'undefined'}.`));
+              cancellation?.dispose();
+              terminal.sendText('\x03', false); // Ctrl+C stops the foreground process of the shell
+              reject(new ScriptCancelledError(options.scriptName));
+            });
+            const disposable = vscode.window.onDidEndTerminalShellExecution(e => {
+              if (e.execution === execution) {
+                disposable.dispose();
+                cancellation?.dispose();
+                // A non-zero exit code indicates an error. Undefined can happen on cancellation (e.g., Ctrl+C).
+                // We will treat undefined as an error to halt the script sequence.
+                if (e.exitCode === 0) {
+                  resolve();
+                } else {
+                  reject(new CommandFailedError(line, e.exitCode));
+                }
               }
-            }
+            });
           });
-        });
-      } else {
-        if (!this.warnedAboutFallback) {
-          const msg = `Shell integration not available for terminal "${terminal.name}". Sequential execution of scripts is not guaranteed.`;
-          LoggingService.instance.logWarning(msg);
-          vscode.window.showWarningMessage(msg);
-          this.warnedAboutFallback = true;
+          await output;
+        } else {
+          if (!this.warnedAboutFallback) {
+            const msg = `Shell integration not available for terminal "${terminal.name}". Sequential execution of scripts is not guaranteed.`;
+            LoggingService.instance.logWarning(msg);
+            vscode.window.showWarningMessage(msg);
+            this.warnedAboutFallback = true;
+          }
+          terminal.sendText(line, true);
+          exitCodesKnown = false;
         }
-        terminal.sendText(line, true);
+      }
+    } finally {
+      logStream?.end();
+    }
+    return exitCodesKnown ? 0 : undefined;
+  }
+
+  /**
+   * Writes a command line and its output to the log of a run, without the escape sequences
+   * of the terminal. The output ends when the execution of the command ends.
+   */
+  private async writeOutput(execution: vscode.TerminalShellExecution, line: string, logStream: fs.WriteStream): Promise<void> {
+    logStream.write(`> ${line}\n`);
+    for await (const data of execution.read()) {
+      if (!logStream.writableEnded) {
+        logStream.write(data.replace(terminalEscapeSequences, ''));
       }
     }
   }
 
-  private async getTerminal(terminalType?: string): Promise<vscode.Terminal> {
-    const isPowershell = terminalType === 'powershell';
-    const terminalName = isPowershell ? 'ProDash Runner (PowerShell)' : 'ProDash Runner';
+  /**
+   * Returns the names of all shell profiles, built-in and user-defined.
+   */
+  public getShellProfileNames(): string[] {
+    return [...new Set([...Object.keys(builtInShellProfiles), ...Object.keys(ProjectService.instance.shellProfiles)])];
+  }
 
-    let terminal = vscode.window.terminals.find(t => t.name === terminalName && !t.exitStatus);
-    if (!terminal) {
-      const options: vscode.TerminalOptions = { name: terminalName };
-      if (isPowershell) {
-        options.shellPath = 'powershell';
+  /**
+   * Looks up a shell profile by name. User-defined profiles take precedence over built-in ones.
+   * @param terminalType The `terminal` value of a script; the default shell if omitted.
+   * @throws If no profile with that name exists.
+   */
+  public getShellProfile(terminalType?: string): ShellProfile {
+    const name = terminalType || 'default';
+    const profile = ProjectService.instance.shellProfiles[name] ?? builtInShellProfiles[name];
+    if (!profile) {
+      throw new Error(`Unknown terminal "${name}". Use one of ${this.getShellProfileNames().join(', ')}, or define it in the _shellProfiles section of projects.jsonc.`);
+    }
+    return profile;
+  }
+
+  /**
+   * Returns the terminals that were created for the runs of a project.
+   * @param projectPath The path of the project.
+   */
+  public getProjectTerminals(projectPath: string): vscode.Terminal[] {
+    return [...this.terminalInfos.entries()]
+      .filter(([terminal, info]) => info.projectPath === projectPath && !terminal.exitStatus)
+      .map(([terminal]) => terminal);
+  }
+
+  private getTerminal(options: TerminalRunOptions): { terminal: vscode.Terminal; isNew: boolean } {
+    const profile = this.getShellProfile(options.terminalType);
+    const strategy = options.strategy || 'shared';
+    const env = options.env || {};
+    const terminalName = this.getTerminalName(options, strategy);
+    const envKey = JSON.stringify(Object.entries(env).sort(([a], [b]) => a.localeCompare(b)));
+    const key = `${terminalName}|${options.terminalType || 'default'}|${envKey}`;
+    const projectPath = strategy === 'shared' ? undefined : options.project.path;
+
+    let terminal = [...this.terminalInfos.entries()].find(([t, info]) => info.key === key && !t.exitStatus)?.[0];
+    if (!terminal && strategy === 'shared' && Object.keys(env).length === 0) {
+      // Adopt a shared terminal that was not created in this session (e.g. a restored one)
+      terminal = vscode.window.terminals.find(t => t.name === terminalName && !t.exitStatus && !this.terminalInfos.has(t));
+      if (terminal) {
+        this.terminalInfos.set(terminal, { key, projectPath });
       }
-      terminal = vscode.window.createTerminal(options);
+    }
+
+    if (terminal && options.reuse === false) {
+      terminal.dispose();
+      this.terminalInfos.delete(terminal);
+      terminal = undefined;
+    }
+
+    const isNew = !terminal;
+    if (!terminal) {
+      terminal = vscode.window.createTerminal({
+        name: terminalName,
+        cwd: options.cwd,
+        env,
+        shellPath: profile.shellPath,
+        shellArgs: profile.shellArgs,
+      });
+      this.terminalInfos.set(terminal, { key, projectPath });
     }
     terminal.show(false);
-    return terminal;
+    return { terminal, isNew };
+  }
+
+  private getTerminalName(options: TerminalRunOptions, strategy: TerminalStrategy): string {
+    const shellSuffix = options.terminalType && options.terminalType !== 'default' ? ` (${options.terminalType})` : '';
+    switch (strategy) {
+      case 'project':
+        return `ProDash: ${options.project.name}${shellSuffix}`;
+      case 'script':
+        return `ProDash: ${options.project.name} › ${options.scriptName}${shellSuffix}`;
+      default:
+        return `ProDash Runner${shellSuffix}`;
+    }
+  }
+
+  /**
+   * Builds the command that changes the working directory in the given shell.
+   */
+  private getChangeDirectoryCommand(terminalType: string | undefined, directory: string): string {
+    switch (this.getShellProfile(terminalType).quoting) {
+      case 'posix':
+        return `cd '${directory.replace(/'/g, `'\\''`)}'`;
+      case 'powershell':
+        return `Set-Location -LiteralPath '${directory.replace(/'/g, `''`)}'`;
+      case 'cmd':
+        return `cd /d "${directory}"`;
+      default:
+        // The default shell is unknown; this form works in bash, PowerShell and cmd alike
+        return `cd "${directory}"`;
+    }
   }
 
   private async waitForShellIntegration(terminal: vscode.Terminal): Promise<boolean> {
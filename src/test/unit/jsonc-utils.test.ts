@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as jsonc from 'jsonc-parser';
+import { getEntries, moveEntryToGroup } from '../../utils/jsonc-utils';
+
+const groupedText = `{
+	"Apps": [
+		// The web app
+		{
+			"name": "web", // Public site
+			"path": "~/web"
+		},
+		{
+			"name": "api",
+			"path": "~/api"
+		} // Backend
+	],
+	"Tools": [
+		{ "name": "cli", "path": "~/cli" }
+	]
+}`;
+
+function move(text: string, name: string, group: string): string {
+	const entry = getEntries(jsonc.parseTree(text)!).find(e => jsonc.findNodeAtLocation(e.node, ['name'])?.value === name)!;
+	const result = moveEntryToGroup(text, entry, group);
+	const errors: jsonc.ParseError[] = [];
+	jsonc.parseTree(result, errors);
+	assert.deepStrictEqual(errors, []);
+	return result;
+}
+
+suite('JSONC Utils', () => {
+	test('moveEntryToGroup moves an entry with its comments to another group', () => {
+		assert.strictEqual(move(groupedText, 'web', 'Tools'), `{
+	"Apps": [
+		{
+			"name": "api",
+			"path": "~/api"
+		} // Backend
+	],
+	"Tools": [
+		{ "name": "cli", "path": "~/cli" },
+		// The web app
+		{
+			"name": "web", // Public site
+			"path": "~/web"
+		}
+	]
+}`);
+	});
+
+	test('moveEntryToGroup moves the last entry of a group with the comment behind it', () => {
+		assert.strictEqual(move(groupedText, 'api', 'Tools'), `{
+	"Apps": [
+		// The web app
+		{
+			"name": "web", // Public site
+			"path": "~/web"
+		}
+	],
+	"Tools": [
+		{ "name": "cli", "path": "~/cli" },
+		{
+			"name": "api",
+			"path": "~/api"
+		} // Backend
+	]
+}`);
+	});
+
+	test('moveEntryToGroup creates a missing group', () => {
+		const result = move(groupedText, 'cli', 'Scripts');
+		assert.deepStrictEqual(jsonc.parse(result).Tools, []);
+		assert.deepStrictEqual(jsonc.parse(result).Scripts, [{ name: 'cli', path: '~/cli' }]);
+	});
+
+	test('moveEntryToGroup sets the group of an entry in the flat format', () => {
+		const result = move('[\n  // CLI\n  { "name": "cli", "group": "Tools" }\n]', 'cli', 'Apps');
+		assert.strictEqual(result, '[\n  // CLI\n  { "name": "cli", "group": "Apps" }\n]');
+	});
+});
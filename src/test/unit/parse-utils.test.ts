@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { globToRegExp, parseEnvFile } from '../../utils/parse-utils';
+
+suite('Parse Utils', () => {
+	suite('parseEnvFile', () => {
+		test('reads variables and skips comments and empty lines', () => {
+			const text = '# Settings\n\nPORT=3000\r\nexport NODE_ENV = production\nAPI.URL=http://localhost # local\n';
+			assert.deepStrictEqual(parseEnvFile(text), { PORT: '3000', NODE_ENV: 'production', 'API.URL': 'http://localhost' });
+		});
+
+		test('unquotes values and keeps their content', () => {
+			const text = 'SINGLE=\'a # b\'\nDOUBLE="line1\\nline2"\nRAW=\'line1\\nline2\'\nEMPTY=';
+			assert.deepStrictEqual(parseEnvFile(text), { SINGLE: 'a # b', DOUBLE: 'line1\nline2', RAW: 'line1\\nline2', EMPTY: '' });
+		});
+
+		test('ignores lines that are not assignments', () => {
+			assert.deepStrictEqual(parseEnvFile('1INVALID=x\njust text\n=value'), {});
+		});
+	});
+
+	suite('globToRegExp', () => {
+		test('matches single folder levels with * and ?', () => {
+			assert.ok(globToRegExp('src/*.ts').test('src/index.ts'));
+			assert.ok(!globToRegExp('src/*.ts').test('src/utils/index.ts'));
+			assert.ok(globToRegExp('file?.txt').test('file1.txt'));
+			assert.ok(!globToRegExp('file?.txt').test('file10.txt'));
+		});
+
+		test('matches any number of folders with **', () => {
+			const regex = globToRegExp('**/node_modules');
+			assert.ok(regex.test('node_modules'));
+			assert.ok(regex.test('a/b/node_modules'));
+			assert.ok(!regex.test('node_modules_old'));
+			assert.ok(globToRegExp('src/**').test('src/a/b.ts'));
+		});
+
+		test('supports alternatives, escapes other characters and ignores case', () => {
+			const regex = globToRegExp('*.{ts,json}');
+			assert.ok(regex.test('tsconfig.json'));
+			assert.ok(regex.test('Index.TS'));
+			assert.ok(!regex.test('index.js'));
+			assert.ok(!globToRegExp('a+b.txt').test('aab.txt'));
+			assert.ok(globToRegExp('(old)').test('(old)'));
+		});
+	});
+});
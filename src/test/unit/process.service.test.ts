@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProcessService } from '../../services/process.service';
+import { CommandFailedError, ScriptCancelledError } from '../../errors';
+
+suite('ProcessService', function () {
+	const shell = { shellPath: 'sh', quoting: 'posix' as const };
+	let folder: string;
+
+	suiteSetup(function () {
+		if (process.platform === 'win32') {
+			this.skip();
+		}
+	});
+
+	setup(() => {
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'prodash-'));
+		fs.mkdirSync(path.join(folder, 'my folder', 'sub'), { recursive: true });
+	});
+
+	teardown(() => {
+		fs.rmSync(folder, { recursive: true, force: true });
+	});
+
+	test('runInBackground changes the folder of the following lines on plain cd lines', async () => {
+		const exitCode = await ProcessService.instance.runInBackground(
+			['cd "my folder"', 'cd sub', 'pwd > here.txt'], { name: 'cd', cwd: folder, shell });
+		assert.strictEqual(exitCode, 0);
+		assert.strictEqual(fs.realpathSync(fs.readFileSync(path.join(folder, 'my folder', 'sub', 'here.txt'), 'utf8').trim()),
+			fs.realpathSync(path.join(folder, 'my folder', 'sub')));
+	});
+
+	test('runInBackground leaves cd lines with more commands to the shell', async () => {
+		await ProcessService.instance.runInBackground(['cd sub 2>/dev/null || cd "my folder" && pwd > here.txt', 'pwd > start.txt'],
+			{ name: 'cd', cwd: folder, shell });
+		assert.ok(fs.existsSync(path.join(folder, 'my folder', 'here.txt')));
+		assert.ok(fs.existsSync(path.join(folder, 'start.txt')));
+	});
+
+	test('runInBackground stops at the first failing command with its exit code', async () => {
+		await assert.rejects(
+			ProcessService.instance.runInBackground(['exit 3', 'touch never.txt'], { name: 'fail', cwd: folder, shell }),
+			(error: CommandFailedError) => error instanceof CommandFailedError && error.exitCode === 3);
+		assert.ok(!fs.existsSync(path.join(folder, 'never.txt')));
+	});
+
+	test('runInBackground writes the output and the environment to the log file', async () => {
+		const logFile = path.join(folder, 'run.log');
+		await ProcessService.instance.runInBackground(['echo "value: $PRODASH_TEST"'],
+			{ name: 'log', cwd: folder, shell, env: { PRODASH_TEST: 'forty-two' }, logFile });
+		await new Promise(resolve => setTimeout(resolve, 50)); // The log stream is flushed asynchronously
+		assert.match(fs.readFileSync(logFile, 'utf8'), /value: forty-two/);
+	});
+
+	test('runInBackground reports a shell that cannot be started and forgets its process', async () => {
+		const tokenSource = new vscode.CancellationTokenSource();
+		await assert.rejects(ProcessService.instance.runInBackground(['echo never'],
+			{ name: 'missing', cwd: folder, shell: { shellPath: path.join(folder, 'no-shell'), quoting: 'posix' } }, tokenSource.token),
+		/ENOENT/);
+		assert.strictEqual(ProcessService.instance['runningProcesses'].size, 0);
+		tokenSource.cancel(); // Nothing is left to kill
+	});
+
+	test('runInBackground kills the running command and skips the rest when cancelled', async () => {
+		const tokenSource = new vscode.CancellationTokenSource();
+		const run = ProcessService.instance.runInBackground(['sleep 10', 'touch never.txt'], { name: 'cancel', cwd: folder, shell }, tokenSource.token);
+		setTimeout(() => tokenSource.cancel(), 200);
+		const start = Date.now();
+		await assert.rejects(run, ScriptCancelledError);
+		assert.ok(Date.now() - start < 5000);
+		assert.ok(!fs.existsSync(path.join(folder, 'never.txt')));
+	});
+});
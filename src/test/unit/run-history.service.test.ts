@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RunHistoryService } from '../../services/run-history.service';
+import { StateService } from '../../services/state.service';
+import { Project, Script } from '../../types';
+import { createExtensionContext } from './vscode-fake';
+
+suite('RunHistoryService', () => {
+	const project: Project = { name: 'Web', path: '/work/web' };
+	const script: Script = { name: 'Build', script: 'npm run build' };
+	let storagePath: string;
+
+	setup(() => {
+		storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'prodash-'));
+		StateService.instance.init(createExtensionContext(storagePath) as unknown as vscode.ExtensionContext);
+	});
+
+	teardown(() => {
+		fs.rmSync(storagePath, { recursive: true, force: true });
+	});
+
+	test('records runs, the most recent first, with a log file each', async () => {
+		const first = await RunHistoryService.instance.startRun(script, project, ['npm run build']);
+		await RunHistoryService.instance.endRun(first, 'failed', 2, 'Command failed');
+		const second = await RunHistoryService.instance.startRun({ name: 'Test' }, project, ['npm test'], 'Build');
+
+		const runs = RunHistoryService.instance.getRuns();
+		assert.deepStrictEqual(runs.map(r => [r.scriptName, r.status, r.exitCode]), [['Test', 'running', undefined], ['Build', 'failed', 2]]);
+		assert.strictEqual(RunHistoryService.instance.getLastRun()?.id, second.id);
+		assert.strictEqual(second.invokedScriptName, 'Build');
+		assert.strictEqual(path.dirname(second.logFile!), path.join(storagePath, 'logs'));
+		assert.ok(runs[1].durationMs! >= 0);
+	});
+
+	test('keeps the 200 most recent runs and deletes the logs of older ones', async () => {
+		const oldest = await RunHistoryService.instance.startRun(script, project, []);
+		fs.writeFileSync(oldest.logFile!, 'output');
+		for (let i = 1; i < 200; i++) {
+			await RunHistoryService.instance.startRun(script, project, []);
+		}
+		assert.strictEqual(RunHistoryService.instance.getRuns().length, 200);
+		assert.ok(fs.existsSync(oldest.logFile!));
+
+		await RunHistoryService.instance.startRun(script, project, []);
+		const runs = RunHistoryService.instance.getRuns();
+		assert.strictEqual(runs.length, 200);
+		assert.ok(!runs.some(r => r.id === oldest.id));
+		assert.ok(!fs.existsSync(oldest.logFile!));
+	});
+
+	test('markInterruptedRuns marks runs that were still running as unknown', async () => {
+		const finished = await RunHistoryService.instance.startRun(script, project, []);
+		await RunHistoryService.instance.endRun(finished, 'succeeded', 0);
+		await RunHistoryService.instance.startRun(script, project, []);
+		let changes = 0;
+		const listener = RunHistoryService.instance.onDidChangeHistory(() => changes++);
+
+		await RunHistoryService.instance.markInterruptedRuns();
+		const [interrupted, succeeded] = RunHistoryService.instance.getRuns();
+		assert.strictEqual(interrupted.status, 'unknown');
+		assert.match(interrupted.error!, /closed during the run/);
+		assert.strictEqual(succeeded.status, 'succeeded');
+		assert.strictEqual(changes, 1);
+
+		await RunHistoryService.instance.markInterruptedRuns();
+		assert.strictEqual(changes, 1, 'nothing is saved when no run was interrupted');
+		listener.dispose();
+	});
+
+	test('clear removes all runs and their logs', async () => {
+		const run = await RunHistoryService.instance.startRun(script, project, []);
+		fs.writeFileSync(run.logFile!, 'output');
+		await RunHistoryService.instance.clear();
+		assert.deepStrictEqual(RunHistoryService.instance.getRuns(), []);
+		assert.ok(!fs.existsSync(run.logFile!));
+	});
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ScriptExecutionService } from '../../services/script-execution.service';
+import { ProjectService } from '../../services/project.service';
+import { VariableError } from '../../errors';
+import { ScriptService } from '../../services/script.service';
+import { Project, Script, ScriptPlatform, ScriptRun } from '../../types';
+
+const service = ScriptExecutionService.instance;
+const project: Project = { name: 'Web', path: '/work/web' };
+
+/**
+ * Replaces the project and script services with ones that know only the given scripts.
+ */
+function useScripts(scripts: Script[]): () => void {
+	const projectService = ProjectService['_instance'];
+	const scriptService = ScriptService['_instance'];
+	ProjectService['_instance'] = { getProjects: () => [project] } as unknown as ProjectService;
+	ScriptService['_instance'] = { getScripts: () => scripts } as unknown as ScriptService;
+	return () => {
+		ProjectService['_instance'] = projectService;
+		ScriptService['_instance'] = scriptService;
+	};
+}
+
+suite('ScriptExecutionService', () => {
+	suite('rerun', () => {
+		const run: ScriptRun = {
+			id: '1', projectName: 'Web', projectPath: '/work/web', scriptName: 'Lint', invokedScriptName: 'Check',
+			commands: ['npm run lint'], startTime: 0, status: 'succeeded',
+		};
+		let executed: string[];
+		let restore: () => void;
+
+		setup(() => {
+			executed = [];
+			restore = useScripts([{ name: 'Lint', script: 'npm run lint' }, { name: 'Check', dependsOn: ['Lint'] }]);
+			service.execute = async (script: Script) => {
+				executed.push(script.name);
+			};
+		});
+
+		teardown(() => {
+			delete (service as Partial<ScriptExecutionService>).execute;
+			restore();
+		});
+
+		test('repeats the script a dependency ran for', async () => {
+			await service.rerun(run);
+			assert.deepStrictEqual(executed, ['Check']);
+		});
+
+		test('repeats the script of a run of its own', async () => {
+			await service.rerun({ ...run, invokedScriptName: undefined });
+			assert.deepStrictEqual(executed, ['Lint']);
+		});
+	});
+
+	suite('resolvePlatformVariant', () => {
+		function resolveOn(platform: ScriptPlatform | undefined, script: Script) {
+			service['getPlatform'] = () => platform;
+			try {
+				return service.resolvePlatformVariant(script);
+			} finally {
+				delete (service as unknown as { getPlatform?: unknown }).getPlatform;
+			}
+		}
+
+		test('prefers the commands of the current operating system', () => {
+			const script: Script = { name: 'Clean', script: 'rm -rf dist', windows: 'rmdir /s /q dist' };
+			assert.deepStrictEqual(resolveOn('windows', script).steps, [{ command: 'rmdir /s /q dist' }]);
+			assert.deepStrictEqual(resolveOn('linux', script).steps, [{ command: 'rm -rf dist' }]);
+		});
+
+		test('picks the terminal of the current operating system', () => {
+			const script: Script = { name: 'Build', script: 'make', terminal: { windows: 'wsl', darwin: 'zsh' } };
+			assert.strictEqual(resolveOn('darwin', script).terminal, 'zsh');
+			assert.strictEqual(resolveOn('linux', script).terminal, undefined);
+			assert.strictEqual(resolveOn(undefined, { ...script, terminal: 'bash' }).terminal, 'bash');
+		});
+
+		test('turns commands into steps and keeps the conditions of steps', () => {
+			const script: Script = { name: 'Test', script: ['npm ci', { command: 'npm test', when: 'exists(\'package.json\')' }] };
+			assert.deepStrictEqual(resolveOn('linux', script).steps,
+				[{ command: 'npm ci' }, { command: 'npm test', when: 'exists(\'package.json\')' }]);
+		});
+
+		test('allows scripts without commands only if they depend on other scripts', () => {
+			assert.deepStrictEqual(resolveOn('linux', { name: 'All', dependsOn: ['Lint'] }).steps, []);
+			assert.throws(() => resolveOn('linux', { name: 'Deploy', windows: 'deploy.cmd' }),
+				/Script "Deploy" has no commands for linux/);
+		});
+	});
+
+	suite('getExecutionOrder', () => {
+		function order(scriptName: string, scripts: Script[]): string[] {
+			return service['getExecutionOrder'](scripts.find(s => s.name === scriptName)!, scripts, project).map(s => s.name);
+		}
+
+		test('runs dependencies first and shared dependencies once', () => {
+			const scripts: Script[] = [
+				{ name: 'Install', script: 'npm ci' },
+				{ name: 'Lint', script: 'npm run lint', dependsOn: ['Install'] },
+				{ name: 'Test', script: 'npm test', dependsOn: ['Install'] },
+				{ name: 'Check', dependsOn: ['Lint', 'Test'] },
+			];
+			assert.deepStrictEqual(order('Check', scripts), ['Install', 'Lint', 'Test', 'Check']);
+		});
+
+		test('includes the dependencies of called scripts, but not the called scripts', () => {
+			const scripts: Script[] = [
+				{ name: 'Install', script: 'npm ci' },
+				{ name: 'Build', script: 'npm run build', dependsOn: ['Install'] },
+				{ name: 'Release', script: ['{{RUN_SCRIPT:Build}}', 'npm publish'] },
+			];
+			assert.deepStrictEqual(order('Release', scripts), ['Install', 'Release']);
+		});
+
+		test('rejects cycles through dependsOn and through called scripts', () => {
+			assert.throws(() => order('A', [{ name: 'A', dependsOn: ['B'] }, { name: 'B', dependsOn: ['A'] }]),
+				/Circular script dependency detected: A → B → A/);
+			assert.throws(() => order('A', [{ name: 'A', script: '{{RUN_SCRIPT:B}}' }, { name: 'B', script: 'make', dependsOn: ['A'] }]),
+				/Circular script dependency detected: A → B → A/);
+		});
+
+		test('searches scripts that are called several times only once', () => {
+			// Without memoizing, the 2^30 paths through this chain would be searched
+			const scripts: Script[] = Array.from({ length: 30 }, (_, i) => ({
+				name: `S${i}`,
+				script: i < 29 ? [`{{RUN_SCRIPT:S${i + 1}}}`, `{{RUN_SCRIPT:S${i + 1}}}`] : 'echo done',
+			}));
+			assert.deepStrictEqual(order('S0', scripts), ['S0']);
+		});
+
+		test('skips a dependency whose condition is false together with its dependencies', () => {
+			const scripts: Script[] = [
+				{ name: 'Install', script: 'npm ci' },
+				{ name: 'Sign', script: 'signtool sign', when: 'os == plan9', dependsOn: ['Install'] },
+				{ name: 'Release', script: 'npm publish', dependsOn: ['Sign'] },
+			];
+			assert.deepStrictEqual(order('Release', scripts), ['Release']);
+		});
+	});
+
+	suite('waitUntilStopped', () => {
+		const script: Script = { name: 'Build', script: 'make' };
+
+		teardown(() => {
+			service['runningScripts'].clear();
+			service['failedRuns'].clear();
+		});
+
+		test('finishes when the other run of the script succeeds', async () => {
+			service['setRunning'](script, project, new vscode.CancellationTokenSource());
+			const waiting = service['waitUntilStopped'](script, project, new vscode.CancellationTokenSource().token);
+			service['setRunning'](script, project, undefined);
+			await waiting;
+		});
+
+		test('fails when the other run of the script fails', async () => {
+			service['setRunning'](script, project, new vscode.CancellationTokenSource());
+			const waiting = service['waitUntilStopped'](script, project, new vscode.CancellationTokenSource().token);
+			service['setRunning'](script, project, undefined, new Error('Command "make" exited with code 2.'));
+			await assert.rejects(waiting, /Script "Build" did not succeed in another run: Command "make" exited with code 2/);
+		});
+	});
+
+	suite('resolveVariables', () => {
+		const context = {
+			inputValues: { version: '1.2.0' },
+			env: { STAGE: 'test' },
+			shell: { quoting: 'posix' as const },
+			variables: { registry: 'npm.example.com', url: 'https://{{registry}}/{{PROJECT_NAME}}', tag: 'v{{INPUT:version}}' },
+		};
+
+		function resolve(command: string, variables: Record<string, string> = context.variables): string {
+			return service['resolveVariables'](command, project, { ...context, variables });
+		}
+
+		test('resolves user variables that use other variables', () => {
+			assert.strictEqual(resolve('npm publish --registry {{url}} --tag {{tag}}'), 'npm publish --registry https://npm.example.com/Web --tag v1.2.0');
+		});
+
+		test('resolves built-in variables, inputs and environment variables', () => {
+			assert.strictEqual(resolve('cd {{PROJECT_PATH}} && deploy {{INPUT:version}} to {{ENV:STAGE}}'), 'cd /work/web && deploy 1.2.0 to test');
+		});
+
+		test('lets user variables take precedence over built-in ones', () => {
+			assert.strictEqual(resolve('echo {{PROJECT_NAME}}', { PROJECT_NAME: 'website' }), 'echo website');
+		});
+
+		test('rejects unknown variables, missing values and variables that refer to themselves', () => {
+			assert.throws(() => resolve('echo {{missing}}'), (error: Error) => error instanceof VariableError && /"{{missing}}" is not defined/.test(error.message));
+			assert.throws(() => resolve('echo {{INPUT:name}}'), (error: Error) => error instanceof VariableError && /"{{INPUT:name}}" has no value/.test(error.message));
+			assert.throws(() => resolve('echo {{a}}', { a: '{{b}}', b: '{{a}}' }),
+				(error: Error) => error instanceof VariableError && /Variable "a" refers to itself: a → b → a/.test(error.message));
+		});
+	});
+});
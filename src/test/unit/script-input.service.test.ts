@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { ScriptInputService } from '../../services/script-input.service';
+import { ScriptInputError } from '../../errors';
+import { Project, Script } from '../../types';
+
+suite('ScriptInputService', () => {
+	const project: Project = { name: 'Web', path: '/work/web' };
+
+	test('promptForInputs validates given values against the pattern of their input', async () => {
+		const script: Script = { name: 'Release', inputs: [{ name: 'version', pattern: '^\\d+\\.\\d+\\.\\d+$' }] };
+		assert.deepStrictEqual(await ScriptInputService.instance.promptForInputs(script, project, { version: '1.2.3' }), { version: '1.2.3' });
+		await assert.rejects(ScriptInputService.instance.promptForInputs(script, project, { version: 'latest' }),
+			/'version' must match the pattern/);
+	});
+
+	test('promptForInputs reports a pattern that is not a regular expression before prompting', async () => {
+		const script: Script = { name: 'Release', inputs: [{ name: 'version', pattern: '(' }] };
+		await assert.rejects(ScriptInputService.instance.promptForInputs(script, project),
+			(error: Error) => error instanceof ScriptInputError && /input 'version' of script "Release"/.test(error.message));
+	});
+});
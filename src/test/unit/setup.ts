@@ -0,0 +1,8 @@
+import * as Module from 'module';
+
+// The unit tests run with plain mocha, so `vscode` is resolved to the fake module
+const moduleLoader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = moduleLoader._resolveFilename;
+moduleLoader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+	return request === 'vscode' ? require.resolve('./vscode-fake') : resolveFilename.call(this, request, ...rest);
+};
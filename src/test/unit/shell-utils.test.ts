@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { parseChangeDirectory } from '../../utils/shell-utils';
+
+suite('Shell Utils', () => {
+	test('parseChangeDirectory returns the folder of a plain cd', () => {
+		assert.strictEqual(parseChangeDirectory('cd src'), 'src');
+		assert.strictEqual(parseChangeDirectory('  cd ../app/web  '), '../app/web');
+		assert.strictEqual(parseChangeDirectory('cd ~/work'), '~/work');
+		assert.strictEqual(parseChangeDirectory('CD /d C:\\work'), 'C:\\work');
+	});
+
+	test('parseChangeDirectory unquotes quoted folders', () => {
+		assert.strictEqual(parseChangeDirectory('cd "my folder"'), 'my folder');
+		assert.strictEqual(parseChangeDirectory('cd \'my folder\''), 'my folder');
+	});
+
+	test('parseChangeDirectory leaves other lines to the shell', () => {
+		assert.strictEqual(parseChangeDirectory('cd'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd -'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd src && npm test'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd src; ls'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd $HOME'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd a b'), undefined);
+		assert.strictEqual(parseChangeDirectory('cd "a" "b"'), undefined);
+		assert.strictEqual(parseChangeDirectory('cdk deploy'), undefined);
+		assert.strictEqual(parseChangeDirectory('echo cd src'), undefined);
+	});
+});
@@ -0,0 +1,120 @@
+/*
+ * A small stand-in for the `vscode` module, so that the services can be tested with plain
+ * mocha outside of VS Code. It only covers what the tested services use; messages and
+ * output are discarded.
+ */
+import * as path from 'path';
+
+type Listener<T> = (e: T) => unknown;
+
+export class Disposable {
+	constructor(private readonly callOnDispose: () => void) { }
+
+	dispose(): void {
+		this.callOnDispose();
+	}
+}
+
+export class EventEmitter<T> {
+	private listeners = new Set<Listener<T>>();
+
+	readonly event = (listener: Listener<T>): Disposable => {
+		this.listeners.add(listener);
+		return new Disposable(() => this.listeners.delete(listener));
+	};
+
+	fire(data: T): void {
+		[...this.listeners].forEach(listener => listener(data));
+	}
+
+	dispose(): void {
+		this.listeners.clear();
+	}
+}
+
+export class CancellationTokenSource {
+	private emitter = new EventEmitter<void>();
+	readonly token = {
+		isCancellationRequested: false,
+		onCancellationRequested: this.emitter.event,
+	};
+
+	cancel(): void {
+		if (!this.token.isCancellationRequested) {
+			this.token.isCancellationRequested = true;
+			this.emitter.fire();
+		}
+	}
+
+	dispose(): void {
+		this.emitter.dispose();
+	}
+}
+
+export class Uri {
+	private constructor(readonly fsPath: string) { }
+
+	static file(fsPath: string): Uri {
+		return new Uri(fsPath);
+	}
+
+	static joinPath(base: Uri, ...segments: string[]): Uri {
+		return new Uri(path.join(base.fsPath, ...segments));
+	}
+}
+
+const noEvent = () => new Disposable(() => { /* Nothing to remove */ });
+const noResult = async () => undefined;
+
+export const window = {
+	activeTextEditor: undefined,
+	terminals: [],
+	createOutputChannel: () => ({
+		append: () => { /* Discarded */ },
+		appendLine: () => { /* Discarded */ },
+		clear: () => { /* Discarded */ },
+		show: () => { /* Discarded */ },
+		dispose: () => { /* Discarded */ },
+	}),
+	showInformationMessage: noResult,
+	showWarningMessage: noResult,
+	showErrorMessage: noResult,
+	showInputBox: noResult,
+	showQuickPick: noResult,
+	onDidCloseTerminal: noEvent,
+	onDidEndTerminalShellExecution: noEvent,
+	onDidChangeTerminalShellIntegration: noEvent,
+};
+
+export const workspace = {
+	workspaceFolders: undefined,
+	getWorkspaceFolder: () => undefined,
+	getConfiguration: () => ({ get: <T>(_key: string, defaultValue?: T) => defaultValue }),
+	onDidSaveTextDocument: noEvent,
+	onDidChangeWorkspaceFolders: noEvent,
+};
+
+export const commands = {
+	executeCommand: noResult,
+};
+
+/**
+ * Returns an extension context that keeps its state in memory, for the StateService.
+ * @param storagePath The folder of the global storage, e.g. for run logs.
+ */
+export function createExtensionContext(storagePath: string) {
+	const createMemento = () => {
+		const values = new Map<string, unknown>();
+		return {
+			get: <T>(key: string) => values.get(key) as T | undefined,
+			update: async (key: string, value: unknown) => {
+				values.set(key, value);
+			},
+		};
+	};
+	return {
+		globalState: createMemento(),
+		workspaceState: createMemento(),
+		globalStorageUri: Uri.file(storagePath),
+	};
+}
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { evaluateWhenExpression, parseWhenExpression, WhenContext } from '../../utils/when-expression';
+import { WhenExpressionError } from '../../errors';
+
+const context: WhenContext = {
+	os: 'linux',
+	branch: 'release/1.2',
+	exists: relativePath => relativePath === 'package.json',
+	env: name => ({ CI: 'true', EMPTY: '' } as Record<string, string>)[name],
+	variable: name => name === 'TARGET' ? 'prod' : undefined,
+};
+
+function evaluate(expression: string): boolean {
+	return evaluateWhenExpression(parseWhenExpression(expression), context);
+}
+
+suite('When Expressions', () => {
+	test('compares operands with literals and unquoted words', () => {
+		assert.strictEqual(evaluate('os == linux'), true);
+		assert.strictEqual(evaluate('os == \'windows\''), false);
+		assert.strictEqual(evaluate('os != windows'), true);
+		assert.strictEqual(evaluate('var.TARGET == "prod"'), true);
+	});
+
+	test('matches regular expressions', () => {
+		assert.strictEqual(evaluate('branch =~ /^release\\//'), true);
+		assert.strictEqual(evaluate('branch =~ /^MAIN$/i'), false);
+		assert.strictEqual(evaluate('branch =~ "^release"'), true);
+	});
+
+	test('treats a single operand as a check for a value or an existing path', () => {
+		assert.strictEqual(evaluate('env.CI'), true);
+		assert.strictEqual(evaluate('env.EMPTY'), false);
+		assert.strictEqual(evaluate('env.MISSING'), false);
+		assert.strictEqual(evaluate('exists(\'package.json\')'), true);
+		assert.strictEqual(evaluate('exists("pom.xml")'), false);
+	});
+
+	test('combines conditions with precedence and parentheses', () => {
+		assert.strictEqual(evaluate('os == windows || os == linux && env.CI'), true);
+		assert.strictEqual(evaluate('(os == windows || os == linux) && !env.CI'), false);
+		assert.strictEqual(evaluate('!!exists(\'package.json\')'), true);
+	});
+
+	test('reports syntax errors with their position', () => {
+		assert.throws(() => parseWhenExpression('os == linux &&'), (error: WhenExpressionError) =>
+			error instanceof WhenExpressionError && error.offset === 14 && /ends unexpectedly/.test(error.message));
+		assert.throws(() => parseWhenExpression('platform == linux'), (error: WhenExpressionError) =>
+			error.offset === 0 && error.length === 8 && /Unknown name "platform"/.test(error.message));
+		assert.throws(() => parseWhenExpression('(os == linux'), /Expected "\)" at the end/);
+		assert.throws(() => parseWhenExpression('branch == \'main'), /Unterminated string/);
+		assert.throws(() => parseWhenExpression('/main/ =~ branch'), /can only follow "=~"/);
+		assert.throws(() => parseWhenExpression('   '), /empty/);
+	});
+});
@@ -10,6 +10,12 @@ export interface Project {
   proDashPath?: string;
   gitPath?: string;
   scriptJsonFile?: string;
+  env?: Record<string, string>;
+  envFile?: string;
+  variables?: Record<string, string>;
+  terminalStrategy?: TerminalStrategy;
+  reuseTerminal?: boolean;
+  origin?: 'configured' | 'discovered' | 'workspace'; /* Where the project comes from: projects.jsonc, a scan root or an open workspace folder */
 }
 
 /**
@@ -20,10 +26,147 @@ export interface Script {
   name: string;
   description?: string;
   group?: string;
-  script: string | string[];
-  terminal?: string;
+  script?: ScriptCommands;
+  windows?: ScriptCommands;
+  linux?: ScriptCommands;
+  darwin?: ScriptCommands;
+  when?: string; /* The script only applies to projects for which the expression is true */
+  terminal?: string | PlatformValues<string>;
   hidden?: boolean;
-  event?: 'ON_ACTIVATE';
+  event?: ScriptEvent;
+  glob?: string; /* Only for ON_SAVE and ON_FILE_CHANGE */
+  interval?: number; /* Only for ON_INTERVAL, in seconds */
+  debounce?: number; /* Only for ON_SAVE and ON_FILE_CHANGE, in milliseconds */
+  mode?: 'terminal' | 'background';
+  env?: Record<string, string>;
+  envFile?: string;
+  variables?: Record<string, string>; /* Used as {{name}}; override the variables of the project and the global ones */
+  cwd?: string;
+  terminalStrategy?: TerminalStrategy;
+  reuseTerminal?: boolean;
+  inputs?: ScriptInput[];
+  dependsOn?: string[];
+  parallel?: boolean;
+  keybinding?: number; /* The slot 1-9, run with Ctrl+K (Cmd+K on macOS) followed by the number */
+  statusBar?: boolean; /* Shows a button in the status bar while the project is the current project */
+  isGlobal?: boolean;
+}
+
+/**
+ * A command of a script that only runs if its `when` expression is true.
+ */
+export interface ScriptStep {
+  command: string;
+  when?: string;
+}
+
+// Type for the commands of a script: a single command or step, or a list of them
+export type ScriptCommands = string | ScriptStep | (string | ScriptStep)[];
+
+/**
+ * The events that run a script automatically.
+ */
+export type ScriptEvent = 'ON_ACTIVATE' | 'ON_SAVE' | 'ON_FILE_CHANGE' | 'ON_DEACTIVATE' | 'ON_WORKSPACE_CLOSE' | 'ON_INTERVAL';
+
+/**
+ * Which runs share a terminal: all runs ('shared'), the runs of one project ('project'),
+ * or only the runs of one script ('script').
+ */
+export type TerminalStrategy = 'shared' | 'project' | 'script';
+
+/**
+ * The operating systems a script can provide specific commands or settings for.
+ */
+export type ScriptPlatform = 'windows' | 'linux' | 'darwin';
+
+// Type for a setting with a different value per operating system
+export type PlatformValues<T> = { [platform in ScriptPlatform]?: T };
+
+/**
+ * A named parameter of a script. Its value is asked for before the script runs
+ * and substituted wherever the script uses `{{INPUT:name}}`.
+ */
+export interface ScriptInput {
+  name: string;
+  type?: 'string' | 'number' | 'boolean' | 'pick';
+  description?: string;
+  default?: string | number | boolean;
+  options?: string[]; /* Only for 'pick' inputs */
+  required?: boolean;
+  pattern?: string; /* Only for 'string' inputs */
+  min?: number; /* Only for 'number' inputs */
+  max?: number; /* Only for 'number' inputs */
+}
+
+/**
+ * The arguments of the `prodash.runScript` command and of the public API, which run a script by name.
+ */
+export interface RunScriptArgs {
+  /** The name or path of the project; the current project if omitted. */
+  project?: string;
+  script: string;
+  /** Values for the inputs of the script, by input name. Inputs with a value are not prompted for. */
+  args?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A record of one script execution, kept in the run history.
+ */
+export interface ScriptRun {
+  id: string;
+  projectName: string;
+  projectPath: string;
+  scriptName: string;
+  invokedScriptName?: string; /* The script that was run, if this run is one of its dependencies */
+  commands: string[];
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled' | 'unknown';
+  exitCode?: number;
+  error?: string;
+  logFile?: string; /* Written by background runs, and by terminal runs with shell integration */
+}
+
+/**
+ * The state of the git repository of a project.
+ */
+export interface GitStatus {
+  branch: string; /* '(detached)' for a detached HEAD */
+  changedFiles: number; /* Staged, unstaged and untracked files */
+  upstream?: string;
+  ahead?: number; /* Only with an upstream */
+  behind?: number; /* Only with an upstream */
+}
+
+/**
+ * Describes how to start a shell for the `terminal` property of a script.
+ * The built-in profiles can be extended in the `_shellProfiles` section of projects.jsonc.
+ */
+export interface ShellProfile {
+  shellPath?: string; /* The default shell of VS Code is used when omitted */
+  shellArgs?: string[];
+  quoting?: 'posix' | 'powershell' | 'cmd';
+}
+
+/**
+ * A folder that is searched for projects: git repositories and folders with a `.prodash` folder.
+ * Declared in the `_scanRoots` section of projects.jsonc.
+ */
+export interface ScanRoot {
+  path: string; /* May start with ~ for the home folder */
+  depth?: number; /* How many folder levels below the root are searched; 2 if omitted */
+  include?: string[]; /* Globs, relative to the root, a project folder must match */
+  exclude?: string[]; /* Globs, relative to the root, of folders that are not searched */
+  group?: string; /* The group of the projects; the name of their parent folder if omitted */
+  groupPattern?: string; /* A regular expression whose first capture group in the folder name is the group */
+}
+
+// Type for the reserved (underscore-prefixed) settings of the grouped project configuration
+export interface ProjectsSettings {
+  _shellProfiles?: Record<string, ShellProfile>;
+  _scanRoots?: ScanRoot[];
+  _variables?: Record<string, string>;
 }
 
 // Type for the new grouped project configuration
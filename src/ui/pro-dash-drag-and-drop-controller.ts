@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { GroupTreeItem, ProjectTreeItem, ScriptTreeItem, TreeElement } from './pro-dash-tree-provider';
+import { ProjectEditorService } from '../services/project-editor.service';
+import { ScriptEditorService } from '../services/script-editor.service';
+import { LoggingService } from '../services/logging.service';
+import { FavoritesService } from '../services/favorites.service';
+import { Project } from '../types';
+
+const treeMimeType = 'application/vnd.code.tree.prodash.projectsview';
+const uriListMimeType = 'text/uri-list';
+
+/**
+ * The group a dragged item is dropped on. Script groups belong to a project.
+ */
+interface DropTarget {
+  kind: 'projectGroup' | 'scriptGroup' | 'favoritesGroup';
+  group: string;
+  project?: Project;
+}
+
+/**
+ * Handles drag and drop in the ProDash tree: projects can be dragged to another project group
+ * and scripts to another group of their project. Projects dropped on the favorites are pinned.
+ * Folders and files dropped from the Explorer on a project group are added as projects;
+ * for a file, its folder is added.
+ * Every change is written to the JSONC file, keeping its comments and formatting.
+ */
+export class ProDashDragAndDropController implements vscode.TreeDragAndDropController<TreeElement> {
+  readonly dragMimeTypes = [treeMimeType];
+  readonly dropMimeTypes = [treeMimeType, uriListMimeType];
+
+  handleDrag(source: readonly TreeElement[], dataTransfer: vscode.DataTransfer): void {
+    const draggableItems = source.filter(item => item instanceof ProjectTreeItem || item instanceof ScriptTreeItem);
+    if (draggableItems.length > 0) {
+      dataTransfer.set(treeMimeType, new vscode.DataTransferItem(draggableItems));
+    }
+  }
+
+  async handleDrop(target: TreeElement | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+    const dropTarget = this.getDropTarget(target);
+    if (!dropTarget) {
+      return;
+    }
+
+    try {
+      const draggedItems: TreeElement[] = dataTransfer.get(treeMimeType)?.value ?? [];
+      if (draggedItems.length > 0) {
+        draggedItems.forEach(item => this.moveItem(item, dropTarget));
+        return;
+      }
+
+      const uriList = await dataTransfer.get(uriListMimeType)?.asString();
+      if (uriList && dropTarget.kind === 'projectGroup') {
+        this.addProjects(uriList, dropTarget.group);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      LoggingService.instance.logError(`Drag and drop failed: ${message}`, error);
+      vscode.window.showErrorMessage(`ProDash: ${message}`);
+    }
+  }
+
+  private moveItem(item: TreeElement, target: DropTarget): void {
+    if (item instanceof ProjectTreeItem && target.kind === 'favoritesGroup') {
+      FavoritesService.instance.addFavorite(item.project);
+    } else if (item instanceof ProjectTreeItem && target.kind === 'projectGroup') {
+      if ((item.project.group || 'Uncategorized') !== target.group) {
+        ProjectEditorService.instance.moveProject(item.project, target.group);
+      }
+    } else if (item instanceof ScriptTreeItem && target.kind === 'scriptGroup') {
+      if (target.project?.path !== item.project.path) {
+        vscode.window.showInformationMessage(`ProDash: Scripts can only be moved between the groups of their own project.`);
+      } else if ((item.script.group || 'Uncategorized') !== target.group) {
+        ScriptEditorService.instance.moveScript(item.script, item.project, target.group);
+      }
+    }
+  }
+
+  /**
+   * Adds the folders of a `text/uri-list` as projects. Folders that are already configured are skipped.
+   */
+  private addProjects(uriList: string, group: string): void {
+    const folders = uriList.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => vscode.Uri.parse(line))
+      .filter(uri => uri.scheme === 'file' && fs.existsSync(uri.fsPath))
+      .map(uri => fs.statSync(uri.fsPath).isDirectory() ? uri.fsPath : path.dirname(uri.fsPath));
+
+    for (const folder of new Set(folders)) {
+      try {
+        ProjectEditorService.instance.addProject(path.basename(folder), folder, group);
+      } catch (error) {
+        LoggingService.instance.logWarning(`Could not add '${folder}' as a project: ${error instanceof Error ? error.message : String(error)}`);
+        vscode.window.showWarningMessage(`ProDash: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Determines the group an item is dropped on: a group itself, or the group of the project
+   * or script it is dropped on. Nothing can be dropped on the recent projects.
+   */
+  private getDropTarget(target: TreeElement | undefined): DropTarget | undefined {
+    if (target instanceof GroupTreeItem && target.contextValue !== 'recentGroup') {
+      return { kind: target.contextValue, group: target.label, project: target.project };
+    }
+    if (target instanceof ProjectTreeItem) {
+      return { kind: 'projectGroup', group: target.project.group || 'Uncategorized' };
+    }
+    if (target instanceof ScriptTreeItem) {
+      return { kind: 'scriptGroup', group: target.script.group || 'Uncategorized', project: target.project };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { ProjectService } from '../services/project.service';
+import { ScriptService } from '../services/script.service';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { RunHistoryService } from '../services/run-history.service';
+import { RunScriptArgs, ScriptRun } from '../types';
+import { readFileContents } from '../utils/file-utils';
+
+const maxDescriptionLength = 40;
+const resultDisplayMilliseconds = 10000;
+
+const resultIcons: Record<ScriptRun['status'], string> = {
+  running: '$(sync~spin)',
+  succeeded: '$(pass)',
+  failed: '$(error)',
+  cancelled: '$(circle-slash)',
+  unknown: '$(question)',
+};
+
+/**
+ * Shows ProDash in the status bar: the current project, which opens a quick pick of its scripts,
+ * the running scripts with their elapsed time followed by the result of the last run, and a
+ * button for every script of the current project with `"statusBar": true`.
+ */
+export class ProDashStatusBar implements vscode.Disposable {
+  private projectItem: vscode.StatusBarItem;
+  private runItem: vscode.StatusBarItem;
+  private scriptItems: vscode.StatusBarItem[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private elapsedTimer: NodeJS.Timeout | undefined;
+  private resultTimer: NodeJS.Timeout | undefined;
+  private resultRunId: string | undefined;
+  private readonly activationTime = Date.now();
+
+  /**
+   * Creates the status bar items.
+   * @param onDidChangeProjects An event fired when the projects or their scripts may have changed.
+   */
+  constructor(onDidChangeProjects: vscode.Event<unknown>) {
+    this.projectItem = vscode.window.createStatusBarItem('prodash.currentProject', vscode.StatusBarAlignment.Left, 100);
+    this.projectItem.name = 'ProDash: Current Project';
+    this.runItem = vscode.window.createStatusBarItem('prodash.runStatus', vscode.StatusBarAlignment.Left, 99);
+    this.runItem.name = 'ProDash: Script Runs';
+    this.runItem.command = 'prodash.showRunHistory';
+
+    this.disposables.push(
+      onDidChangeProjects(() => this.updateProject()),
+      ProjectService.instance.onDidChangeCurrentProject(() => this.updateProject()),
+      ScriptExecutionService.instance.onDidChangeRunningScripts(() => this.updateScripts()),
+      RunHistoryService.instance.onDidChangeHistory(() => this.updateRuns()),
+    );
+    this.updateProject();
+    this.updateRuns();
+  }
+
+  /**
+   * Shows the current project and the buttons of its scripts.
+   */
+  private updateProject(): void {
+    const project = ProjectService.instance.currentProject;
+    if (!project) {
+      this.projectItem.hide();
+      this.updateScripts();
+      return;
+    }
+
+    const description = readFileContents(project.descriptionFile || '') || project.description || '';
+    const shortDescription = description.length > maxDescriptionLength ? `${description.slice(0, maxDescriptionLength - 1)}…` : description;
+    this.projectItem.text = `$(repo) ${project.name}${shortDescription ? ` · ${shortDescription}` : ''}`;
+    this.projectItem.tooltip = new vscode.MarkdownString(`**${project.name}**${description ? `\n\n${description}` : ''}\n\n---\n\nClick to run a script of the project.`);
+    this.projectItem.command = { command: 'prodash.runScriptQuickPick', title: 'Run Script', arguments: [project] };
+    this.projectItem.show();
+    this.updateScripts();
+  }
+
+  /**
+   * Shows a button for every script of the current project with `"statusBar": true`,
+   * which runs the script or stops it while it runs.
+   */
+  private updateScripts(): void {
+    this.scriptItems.forEach(item => item.dispose());
+    this.scriptItems = [];
+
+    const project = ProjectService.instance.currentProject;
+    if (!project) {
+      return;
+    }
+    const scripts = ScriptService.instance.getScripts(project.path).filter(s => s.statusBar && ScriptExecutionService.instance.appliesTo(s, project));
+    scripts.forEach((script, index) => {
+      const item = vscode.window.createStatusBarItem(`prodash.script.${script.name}`, vscode.StatusBarAlignment.Left, 98 - index / 100);
+      const args: RunScriptArgs = { project: project.path, script: script.name };
+      item.name = `ProDash: ${script.name}`;
+      if (ScriptExecutionService.instance.isRunning(script, project)) {
+        item.text = `$(debug-stop) ${script.name}`;
+        item.tooltip = `Stop "${script.name}"`;
+        item.command = { command: 'prodash.stopScript', title: 'Stop', arguments: [args] };
+      } else {
+        item.text = `$(play) ${script.name}`;
+        item.tooltip = script.description ? `Run "${script.name}": ${script.description}` : `Run "${script.name}"`;
+        item.command = { command: 'prodash.runScript', title: 'Run', arguments: [args] };
+      }
+      item.show();
+      this.scriptItems.push(item);
+    });
+  }
+
+  /**
+   * Shows the running scripts with their elapsed time, or the result of the last run for a while.
+   * Runs recorded before the extension was activated are ignored.
+   */
+  private updateRuns(): void {
+    const runs = RunHistoryService.instance.getRuns().filter(r => r.startTime >= this.activationTime);
+    const runningRuns = runs.filter(r => r.status === 'running');
+
+    if (runningRuns.length > 0) {
+      const run = runningRuns[0];
+      const others = runningRuns.length > 1 ? ` (+${runningRuns.length - 1})` : '';
+      this.runItem.text = `$(sync~spin) ${run.scriptName}${others} ${formatDuration(Date.now() - run.startTime)}`;
+      this.runItem.tooltip = runningRuns.map(r => `${r.scriptName} (${r.projectName})`).join('\n');
+      this.runItem.backgroundColor = undefined;
+      this.runItem.show();
+      this.clearResultTimer();
+      // Keep the elapsed time up to date
+      if (!this.elapsedTimer) {
+        this.elapsedTimer = setInterval(() => this.updateRuns(), 1000);
+      }
+      return;
+    }
+
+    if (this.elapsedTimer) {
+      clearInterval(this.elapsedTimer);
+      this.elapsedTimer = undefined;
+    }
+    const lastRun = runs[0];
+    if (lastRun && lastRun.id !== this.resultRunId) {
+      this.showResult(lastRun);
+    }
+  }
+
+  private showResult(run: ScriptRun): void {
+    this.clearResultTimer();
+    this.resultRunId = run.id;
+    this.runItem.text = `${resultIcons[run.status]} ${run.scriptName} ${formatDuration(run.durationMs ?? 0)}`;
+    this.runItem.tooltip = `${run.scriptName} (${run.projectName}): ${run.status}${run.exitCode !== undefined ? `, exit code ${run.exitCode}` : ''}\n\nClick to show the run history.`;
+    this.runItem.backgroundColor = run.status === 'failed' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+    this.runItem.show();
+    this.resultTimer = setTimeout(() => {
+      this.resultTimer = undefined;
+      this.runItem.hide();
+    }, resultDisplayMilliseconds);
+  }
+
+  private clearResultTimer(): void {
+    if (this.resultTimer) {
+      clearTimeout(this.resultTimer);
+      this.resultTimer = undefined;
+    }
+  }
+
+  /**
+   * Removes the status bar items and stops the timers.
+   */
+  dispose(): void {
+    this.clearResultTimer();
+    if (this.elapsedTimer) {
+      clearInterval(this.elapsedTimer);
+    }
+    this.projectItem.dispose();
+    this.runItem.dispose();
+    this.scriptItems.forEach(item => item.dispose());
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/**
+ * Formats a duration like `42s` or `3m 05s`.
+ */
+function formatDuration(milliseconds: number): string {
+  const seconds = Math.floor(milliseconds / 1000);
+  if (seconds < 60) {
+    return milliseconds < 10000 ? `${(milliseconds / 1000).toFixed(1)}s` : `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -1,11 +1,24 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ProjectService } from '../services/project.service';
 import { ScriptService } from '../services/script.service';
 import { LoggingService } from '../services/logging.service';
-import { Project, Script } from '../types';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { ConfigurationService } from '../services/configuration.service';
+import { DiagnosticsService } from '../services/diagnostics.service';
+import { GitStatusService } from '../services/git-status.service';
+import { StateService } from '../services/state.service';
+import { FavoritesService } from '../services/favorites.service';
+import { KeybindingService } from '../services/keybinding.service';
+import { GitStatus, Project, Script } from '../types';
 import { readFileContents } from '../utils/file-utils';
 
-type TreeElement = GroupTreeItem | ProjectTreeItem | ScriptTreeItem;
+export type TreeElement = GroupTreeItem | ProjectTreeItem | ScriptTreeItem | ConfigurationErrorTreeItem;
+
+const onlyChangedProjectsKey = 'prodash.onlyChangedProjects';
+const favoritesGroupLabel = '★ Favorites';
+const recentGroupLabel = 'Recent';
+const maxRecentProjectsShown = 5;
 
 /**
  * Provides the tree data for the ProDash projects/scripts view.
@@ -16,11 +29,91 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
   private _onDidChangeTreeData: vscode.EventEmitter<TreeElement | undefined | null | void> = new vscode.EventEmitter<TreeElement | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<TreeElement | undefined | null | void> = this._onDidChangeTreeData.event;
 
+  private viewUpdateTimer: NodeJS.Timeout | undefined;
+
+  constructor() {
+    // Show scripts as running or idle and git statuses without reloading the configuration
+    ScriptExecutionService.instance.onDidChangeRunningScripts(() => this._onDidChangeTreeData.fire());
+    GitStatusService.instance.onDidChangeStatus(() => this.scheduleViewUpdate());
+    FavoritesService.instance.onDidChange(() => this._onDidChangeTreeData.fire());
+    ProjectService.instance.onDidChangeCurrentProject(() => this._onDidChangeTreeData.fire());
+    vscode.commands.executeCommand('setContext', onlyChangedProjectsKey, this.onlyChangedProjects);
+  }
+
+  /**
+   * Gets whether only projects with uncommitted changes or unpushed commits are shown.
+   */
+  get onlyChangedProjects(): boolean {
+    return StateService.instance.getGlobal(onlyChangedProjectsKey, false);
+  }
+
+  /**
+   * Shows only the projects with uncommitted changes or unpushed commits, or all projects again.
+   * The `prodash.onlyChangedProjects` context key reflects the setting.
+   * @param onlyChanged Whether only changed projects are shown.
+   */
+  async setOnlyChangedProjects(onlyChanged: boolean): Promise<void> {
+    await StateService.instance.updateGlobal(onlyChangedProjectsKey, onlyChanged);
+    await vscode.commands.executeCommand('setContext', onlyChangedProjectsKey, onlyChanged);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Updates the view after a short delay, so that the statuses of many repositories
+   * that are read one after the other cause few updates.
+   */
+  private scheduleViewUpdate(): void {
+    if (!this.viewUpdateTimer) {
+      this.viewUpdateTimer = setTimeout(() => {
+        this.viewUpdateTimer = undefined;
+        this._onDidChangeTreeData.fire();
+      }, 200);
+    }
+  }
+
+  /**
+   * Returns the projects to show, considering the filter for changed projects.
+   * Projects whose git status is not known yet are hidden by the filter until it is.
+   */
+  private getVisibleProjects(): Project[] {
+    const projects = ProjectService.instance.getProjects();
+    if (!this.onlyChangedProjects) {
+      return projects;
+    }
+    return projects.filter(p => {
+      const status = GitStatusService.instance.getStatus(p);
+      return !!status && (status.changedFiles > 0 || !!status.ahead);
+    });
+  }
+
+  /**
+   * Returns the visible favorite projects, in the order they were pinned.
+   */
+  private getFavoriteProjects(): Project[] {
+    const visibleProjects = this.getVisibleProjects();
+    return FavoritesService.instance.getFavorites().filter(p => visibleProjects.includes(p));
+  }
+
+  /**
+   * Returns the visible recently opened projects, the most recent first.
+   */
+  private getRecentProjects(): Project[] {
+    const visibleProjects = this.getVisibleProjects();
+    return FavoritesService.instance.getRecentProjects()
+      .map(r => r.project)
+      .filter(p => visibleProjects.includes(p))
+      .slice(0, maxRecentProjectsShown);
+  }
+
   /**
    * Refreshes the projects tree by re-initializing groups and firing the change event.
+   * The configuration files are validated again and the script keybindings updated.
+   * @param rescan Whether to search the scan roots for projects again.
    */
-  refresh(): void {
-    ProjectService.instance.refresh();
+  refresh(rescan = false): void {
+    ProjectService.instance.refresh(rescan);
+    DiagnosticsService.instance.validateAll();
+    KeybindingService.instance.update();
     this._onDidChangeTreeData.fire();
   }
 
@@ -40,7 +133,7 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
     LoggingService.instance.logInfo(`ProDashTreeProvider.getChildren(${element?.label})`);
     if (!element) {
       // Root level: Get project groups
-      const projects = ProjectService.instance.getProjects();
+      const projects = this.getVisibleProjects();
       const groups = new Map<string, Project[]>();
 
       // Group projects by their group name
@@ -52,7 +145,19 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
         groups.get(groupName)!.push(project);
       }
 
-      const groupItems: GroupTreeItem[] = [];
+      // A configuration file that cannot be parsed is shown instead of silently missing content
+      const errorItems = [ProjectService.instance.globalConfigurationFileNameAndPath, ScriptService.instance.globalScriptsFileNameAndPath]
+        .map(f => ConfigurationErrorTreeItem.create(f))
+        .filter((item): item is ConfigurationErrorTreeItem => !!item);
+
+      // The virtual groups come first and are only shown when they have projects
+      const groupItems: TreeElement[] = [...errorItems];
+      if (this.getFavoriteProjects().length > 0) {
+        groupItems.push(new GroupTreeItem(favoritesGroupLabel, 'favoritesGroup', undefined, true));
+      }
+      if (this.getRecentProjects().length > 0) {
+        groupItems.push(new GroupTreeItem(recentGroupLabel, 'recentGroup', undefined, true));
+      }
       for (const [groupName, projectsInGroup] of groups.entries()) {
         // A group is expanded if it contains any active project.
         const hasActiveProject = projectsInGroup.some(p => p.isActive);
@@ -63,23 +168,33 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
 
     if (element.contextValue === 'projectGroup') {
       // Project Group level: Get projects in this group
-      const projects = ProjectService.instance.getProjects();
+      const projects = this.getVisibleProjects();
       return projects
         .filter(p => (p.group || 'Uncategorized') === element.label)
         .map(p => new ProjectTreeItem(p) as TreeElement);
     }
 
-    if (element.contextValue === 'project') {
+    if (element.contextValue === 'favoritesGroup') {
+      return this.getFavoriteProjects().map(p => new ProjectTreeItem(p) as TreeElement);
+    }
+
+    if (element.contextValue === 'recentGroup') {
+      return this.getRecentProjects().map(p => new ProjectTreeItem(p) as TreeElement);
+    }
+
+    if (element instanceof ProjectTreeItem) {
       // Project level: Get script groups
       const project = (element as ProjectTreeItem).project;
       const allScripts = ScriptService.instance.getScripts(project.path);
+      const errorItem = ConfigurationErrorTreeItem.create(ScriptService.instance.getScriptsFile(project.path));
 
-      // UI is responsible for filtering hidden scripts
-      const visibleScripts = allScripts.filter(s => !s.hidden && !s.name.startsWith('_'));
+      // UI is responsible for filtering hidden scripts and scripts that do not apply to the project
+      const visibleScripts = allScripts.filter(s => !s.hidden && !s.name.startsWith('_') && ScriptExecutionService.instance.appliesTo(s, project));
       const scriptGroups = [...new Set(visibleScripts.map(s => s.group || 'Uncategorized'))]
         .filter(g => !g.startsWith('_'));
 
-      return scriptGroups.map(g => new GroupTreeItem(g, 'scriptGroup', project, project.isActive) as TreeElement);
+      const groupItems = scriptGroups.map(g => new GroupTreeItem(g, 'scriptGroup', project, project.isActive) as TreeElement);
+      return errorItem ? [errorItem, ...groupItems] : groupItems;
     }
 
     if (element.contextValue === 'scriptGroup') {
@@ -90,6 +205,7 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
 
       return allScripts
         .filter(s => !s.hidden && !s.name.startsWith('_') && (s.group || 'Uncategorized') === groupItem.label)
+        .filter(s => ScriptExecutionService.instance.appliesTo(s, project))
         .map(s => new ScriptTreeItem(s, project) as TreeElement);
     }
 
@@ -97,15 +213,15 @@ export class ProDashTreeProvider implements vscode.TreeDataProvider<TreeElement>
   }
 }
 
-class GroupTreeItem extends vscode.TreeItem {
+export class GroupTreeItem extends vscode.TreeItem {
 
   constructor(public readonly label: string,
-    public readonly contextValue: 'projectGroup' | 'scriptGroup',
+    public readonly contextValue: 'projectGroup' | 'scriptGroup' | 'favoritesGroup' | 'recentGroup',
     public readonly project?: Project, /* Only for script groups */
     isExpanded: boolean = false
   ) {
     super(label, isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
-    this.iconPath = new vscode.ThemeIcon('folder');
+    this.iconPath = new vscode.ThemeIcon(contextValue === 'recentGroup' ? 'history' : 'folder');
   }
 
 }
@@ -116,25 +232,42 @@ export class ProjectTreeItem extends vscode.TreeItem {
     const collapsibleState = project.isActive
       ? vscode.TreeItemCollapsibleState.Expanded
       : vscode.TreeItemCollapsibleState.Collapsed;
-    const label = project.isActive ? `★★★ ${project.name} ★★★` : project.name;
+    // The current project stands out from the other projects open in the window
+    const isCurrent = project.isActive && ProjectService.instance.currentProject?.path === project.path;
+    const label = isCurrent ? `★★★ ${project.name} ★★★` : project.isActive ? `★ ${project.name}` : project.name;
 
     super(label, collapsibleState);
-    this.contextValue = 'project';
+    // Projects that are not configured in projects.jsonc can be registered, favorites can be unpinned
+    this.contextValue = project.origin === 'configured' ? 'project' : `project.${project.origin}`;
+    if (FavoritesService.instance.isFavorite(project)) {
+      this.contextValue += '.favorite';
+    }
     this.resourceUri = vscode.Uri.file(project.path);
-    this.iconPath = new vscode.ThemeIcon('repo');
+    this.iconPath = isCurrent ? new vscode.ThemeIcon('target', new vscode.ThemeColor('charts.yellow')) : new vscode.ThemeIcon('repo');
 
     const staticDescription = project.description || '';
     const dynamicDescription = readFileContents(project.descriptionFile || '');
     const longDescriptionContent = readFileContents(project.longDescriptionFile || '');
-    this.description = dynamicDescription ? dynamicDescription : staticDescription;
+    const description = dynamicDescription ? dynamicDescription : staticDescription;
+    this.description = description;
 
     if (longDescriptionContent) {
       this.tooltip = new vscode.MarkdownString(longDescriptionContent);
-    } else if (this.description) {
-      this.tooltip = new vscode.MarkdownString(`**${project.name}**\n\n---\n\n${this.description}`);
+    } else if (description) {
+      this.tooltip = new vscode.MarkdownString(`**${project.name}**\n\n---\n\n${description}`);
     } else {
       this.tooltip = project.name;
     }
+
+    // The git status comes first, since descriptions can be long
+    const gitStatus = GitStatusService.instance.getStatus(project);
+    if (gitStatus) {
+      this.description = [formatGitStatus(gitStatus), description].filter(Boolean).join(' · ');
+      const tooltip = typeof this.tooltip === 'string' ? new vscode.MarkdownString(`**${this.tooltip}**`) : this.tooltip;
+      tooltip.supportThemeIcons = true;
+      tooltip.appendMarkdown(`\n\n---\n\n${describeGitStatus(gitStatus)}`);
+      this.tooltip = tooltip;
+    }
   }
 
 }
@@ -150,6 +283,73 @@ export class ScriptTreeItem extends vscode.TreeItem {
     this.contextValue = 'script';
     this.iconPath = new vscode.ThemeIcon('play-circle');
     this.tooltip = script.description || script.name;
+
+    // Scripts inherited from the global scripts.jsonc are marked as such
+    if (script.isGlobal) {
+      this.description = 'global';
+      this.iconPath = new vscode.ThemeIcon('globe');
+      this.tooltip = `${this.tooltip} (from the global scripts.jsonc)`;
+    }
+
+    // A running script offers a stop action instead of the run action
+    if (ScriptExecutionService.instance.isRunning(script, project)) {
+      this.contextValue = 'runningScript';
+      this.iconPath = new vscode.ThemeIcon('sync~spin');
+      this.description = script.isGlobal ? 'global, running' : 'running';
+    }
+  }
+
+}
+
+/**
+ * A warning node for a configuration file that could not be loaded. Clicking it opens the file,
+ * where the problems are shown as diagnostics.
+ */
+export class ConfigurationErrorTreeItem extends vscode.TreeItem {
+
+  private constructor(public readonly filePath: string, error: string) {
+    super(`${path.basename(filePath)} has errors`, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'configurationError';
+    this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    this.description = filePath;
+    this.tooltip = `${error}\n\nSee the Problems panel for details.`;
+    this.command = { command: 'vscode.open', title: 'Open File', arguments: [vscode.Uri.file(filePath)] };
+  }
+
+  /**
+   * Creates a warning node if the last attempt to load the file failed.
+   * @param filePath The absolute path to the configuration file.
+   */
+  public static create(filePath: string): ConfigurationErrorTreeItem | undefined {
+    const error = ConfigurationService.instance.getError(filePath);
+    return error ? new ConfigurationErrorTreeItem(filePath, error) : undefined;
   }
 
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a git status for the description of a project, e.g. `main* ↑1 ↓2`.
+ * The asterisk marks uncommitted changes.
+ */
+function formatGitStatus(status: GitStatus): string {
+  const parts = [`${status.branch}${status.changedFiles > 0 ? '*' : ''}`];
+  if (status.ahead) {
+    parts.push(`↑${status.ahead}`);
+  }
+  if (status.behind) {
+    parts.push(`↓${status.behind}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Describes a git status in Markdown for the tooltip of a project.
+ */
+function describeGitStatus(status: GitStatus): string {
+  const lines = [`$(git-branch) **${status.branch}**${status.upstream ? ` → ${status.upstream}` : ' (no upstream)'}`];
+  lines.push(status.changedFiles > 0 ? `$(diff) ${status.changedFiles} changed file${status.changedFiles === 1 ? '' : 's'}` : '$(check) No uncommitted changes');
+  if (status.upstream) {
+    lines.push(`$(arrow-up) ${status.ahead ?? 0} ahead, $(arrow-down) ${status.behind ?? 0} behind`);
+  }
+  return lines.join('  \n');
+}
@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectService } from '../services/project.service';
+import { ScriptService } from '../services/script.service';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { RunHistoryService } from '../services/run-history.service';
+import { LoggingService } from '../services/logging.service';
+import { FileWatcherService } from '../services/file-watcher.service';
+import { describeRunResult } from './run-history-quick-pick';
+import { createTextFileIfNotExist } from '../utils/file-utils';
+import { Project, Script, ScriptRun } from '../types';
+import { projectFullDescriptionFileName } from '../constants';
+
+/**
+ * A message sent by the webview when it is loaded or a button is clicked.
+ */
+interface DashboardMessage {
+  command: 'ready' | 'run' | 'stop' | 'openFullDescription' | 'editScripts' | 'openFile';
+  script?: string;
+  file?: string; /* A link of the description to a file, relative to the description */
+}
+
+const statusSymbols: Record<ScriptRun['status'], string> = {
+  running: '⟳',
+  succeeded: '✔',
+  failed: '✖',
+  cancelled: '⊘',
+  unknown: '?',
+};
+
+/**
+ * A webview page per project that renders the project's `fulldescription.$$$` file as Markdown
+ * and lists its scripts by group, with run and stop buttons and the status of their last run.
+ * The page is updated when the file, the scripts or the run history change, so scripts can
+ * fill it with anything worth seeing at a glance, like coverage, release notes or CI links.
+ */
+export class ProjectDashboardPanel {
+  private static panels: Map<string, ProjectDashboardPanel> = new Map();
+  private disposables: vscode.Disposable[] = [];
+  private updateTimer: NodeJS.Timeout | undefined;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly projectPath: string) {
+    this.panel.webview.html = this.getHtml();
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage((message: DashboardMessage) => this.handleMessage(message).catch(error => {
+        const text = error instanceof Error ? error.message : String(error);
+        LoggingService.instance.logError(`Project dashboard '${message.command}' failed: ${text}`, error);
+        vscode.window.showErrorMessage(`ProDash: ${text}`);
+      })),
+      RunHistoryService.instance.onDidChangeHistory(() => this.scheduleUpdate()),
+      ScriptExecutionService.instance.onDidChangeRunningScripts(() => this.scheduleUpdate()),
+      // The description and the scripts are read again when the ProDash files change
+      FileWatcherService.instance.onDidChangeFile(() => this.scheduleUpdate()),
+    );
+  }
+
+  /**
+   * Shows the dashboard of a project, reusing its panel if it is already open.
+   * @param project The project to show.
+   */
+  public static show(project: Project): void {
+    const existingPanel = ProjectDashboardPanel.panels.get(project.path);
+    if (existingPanel) {
+      existingPanel.panel.reveal();
+      existingPanel.scheduleUpdate();
+      return;
+    }
+
+    // Images of the description may be next to it, which can be outside of the project folder
+    const panel = vscode.window.createWebviewPanel('prodash.projectDashboard', `ProDash: ${project.name}`, vscode.ViewColumn.Active, {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.file(project.path), vscode.Uri.file(getDescriptionFolder(project))],
+    });
+    ProjectDashboardPanel.panels.set(project.path, new ProjectDashboardPanel(panel, project.path));
+  }
+
+  /**
+   * Gets the current definition of the project, which is replaced whenever the projects are reloaded.
+   */
+  private get project(): Project | undefined {
+    return ProjectService.instance.getProjects().find(p => p.path === this.projectPath);
+  }
+
+  /**
+   * Updates the page after a short delay, so that a burst of changes causes a single update.
+   */
+  private scheduleUpdate(): void {
+    if (!this.updateTimer) {
+      this.updateTimer = setTimeout(() => {
+        this.updateTimer = undefined;
+        this.update();
+      }, 200);
+    }
+  }
+
+  private async update(): Promise<void> {
+    const project = this.project;
+    if (!project) {
+      this.panel.webview.postMessage({ type: 'update', description: '<p>This project is no longer in the dashboard.</p>', scripts: '' });
+      return;
+    }
+    this.panel.title = `ProDash: ${project.name}`;
+    this.panel.webview.postMessage({
+      type: 'update',
+      description: await this.renderDescription(project),
+      // Relative images of the description are loaded from its folder
+      baseUri: this.panel.webview.asWebviewUri(vscode.Uri.file(getDescriptionFolder(project))).toString(),
+      scripts: this.renderScripts(project),
+    });
+  }
+
+  private async handleMessage(message: DashboardMessage): Promise<void> {
+    // The page is loaded again whenever the panel becomes visible
+    if (message.command === 'ready') {
+      await this.update();
+      return;
+    }
+    const project = this.project;
+    if (!project) {
+      return;
+    }
+    const script = ScriptService.instance.getScripts(project.path).find(s => s.name === message.script);
+    switch (message.command) {
+      case 'run':
+        if (script) {
+          ScriptExecutionService.instance.execute(script, project).catch(() => { /* Already reported by execute */ });
+        }
+        break;
+      case 'stop':
+        if (script) {
+          ScriptExecutionService.instance.stop(script, project);
+        }
+        break;
+      case 'openFullDescription':
+        if (project.fullDescriptionFile) {
+          createTextFileIfNotExist(project.fullDescriptionFile, '');
+          await vscode.window.showTextDocument(vscode.Uri.file(project.fullDescriptionFile));
+        }
+        break;
+      case 'editScripts': {
+        const scriptsFile = ScriptService.instance.getScriptsFile(project.path);
+        if (!fs.existsSync(scriptsFile)) {
+          ProjectService.instance.createScriptsFile(project, scriptsFile);
+        }
+        await vscode.window.showTextDocument(vscode.Uri.file(scriptsFile));
+        break;
+      }
+      case 'openFile': {
+        const file = path.resolve(getDescriptionFolder(project), decodeURIComponent((message.file || '').replace(/[?#].*$/, '')));
+        if (!fs.existsSync(file)) {
+          vscode.window.showWarningMessage(`ProDash: The linked file ${file} does not exist.`);
+          break;
+        }
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file));
+        break;
+      }
+    }
+  }
+
+  /**
+   * Renders the full description with the Markdown renderer of VS Code. The HTML may contain
+   * the raw HTML of the Markdown, so the page sanitizes it before showing it.
+   */
+  private async renderDescription(project: Project): Promise<string> {
+    const file = project.fullDescriptionFile;
+    const markdown = file && fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+    if (!markdown.trim()) {
+      return `<p class="empty">No full description yet. Write Markdown to <code>${escapeHtml(file || projectFullDescriptionFileName)}</code>, e.g. from a script with <code>{{FULLDESCRIPTION_FILE}}</code>.</p>`;
+    }
+    try {
+      return await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+    } catch (error) {
+      LoggingService.instance.logWarning(`Could not render ${file} as Markdown: ${error instanceof Error ? error.message : String(error)}`);
+      return `<pre>${escapeHtml(markdown)}</pre>`;
+    }
+  }
+
+  private renderScripts(project: Project): string {
+    const scripts = ScriptService.instance.getScripts(project.path)
+      .filter(s => !s.hidden && !s.name.startsWith('_') && ScriptExecutionService.instance.appliesTo(s, project));
+    if (scripts.length === 0) {
+      return '<p class="empty">This project has no scripts.</p>';
+    }
+
+    const runs = RunHistoryService.instance.getRuns().filter(r => r.projectPath === project.path);
+    const groups = new Map<string, Script[]>();
+    for (const script of scripts) {
+      const group = script.group || 'Uncategorized';
+      groups.set(group, [...(groups.get(group) || []), script]);
+    }
+
+    return [...groups.entries()].map(([group, scriptsInGroup]) => `
+      <h3>${escapeHtml(group)}</h3>
+      <table>${scriptsInGroup.map(script => this.renderScript(script, project, runs.find(r => r.scriptName === script.name))).join('')}</table>`
+    ).join('');
+  }
+
+  private renderScript(script: Script, project: Project, lastRun: ScriptRun | undefined): string {
+    const isRunning = ScriptExecutionService.instance.isRunning(script, project);
+    const button = isRunning
+      ? `<button class="secondary" data-command="stop" data-script="${escapeHtml(script.name)}">Stop</button>`
+      : `<button data-command="run" data-script="${escapeHtml(script.name)}">Run</button>`;
+    const status = lastRun
+      ? `<span class="status ${lastRun.status}" title="${escapeHtml(new Date(lastRun.startTime).toLocaleString())}">${statusSymbols[lastRun.status]} ${escapeHtml(describeRunResult(lastRun))}</span>`
+      : '<span class="status">never run</span>';
+    return `
+      <tr>
+        <td>${button}</td>
+        <td><strong>${escapeHtml(script.name)}</strong>${script.isGlobal ? ' <span class="badge">global</span>' : ''}<br>
+          <span class="description">${escapeHtml(script.description || '')}</span></td>
+        <td>${status}</td>
+      </tr>`;
+  }
+
+  private getHtml(): string {
+    const nonce = Math.random().toString(36).slice(2) + Date.now().toString(36);
+    const webview = this.panel.webview;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    .toolbar { display: flex; gap: 8px; margin: 12px 0; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    table { border-collapse: collapse; width: 100%; }
+    td { padding: 4px 8px; vertical-align: top; border-bottom: 1px solid var(--vscode-widget-border, transparent); }
+    td:first-child { width: 1%; }
+    td:last-child { text-align: right; white-space: nowrap; }
+    .description, .empty, .status { color: var(--vscode-descriptionForeground); }
+    .status.succeeded { color: var(--vscode-testing-iconPassed); }
+    .status.failed { color: var(--vscode-testing-iconFailed); }
+    .badge { font-size: 0.8em; padding: 0 4px; border-radius: 4px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    #description { border-bottom: 1px solid var(--vscode-widget-border, var(--vscode-panel-border)); padding-bottom: 12px; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button class="secondary" data-command="openFullDescription">Edit Description</button>
+    <button class="secondary" data-command="editScripts">Edit Scripts</button>
+  </div>
+  <div id="description"><p class="empty">Loading...</p></div>
+  <h2>Scripts</h2>
+  <div id="scripts"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    // Only the elements and attributes Markdown produces are kept from the description
+    const allowedTags = new Set(['a', 'b', 'blockquote', 'br', 'code', 'del', 'details', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+      'hr', 'i', 'img', 'kbd', 'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul']);
+    const allowedAttributes = new Set(['align', 'alt', 'class', 'colspan', 'height', 'href', 'id', 'open', 'rowspan', 'src', 'start', 'title', 'width']);
+    const hasScheme = url => /^[a-z][a-z0-9+.-]*:/i.test(url);
+
+    function sanitize(html, baseUri) {
+      const template = document.createElement('template');
+      template.innerHTML = html;
+      for (const element of template.content.querySelectorAll('*')) {
+        if (!allowedTags.has(element.localName)) {
+          element.remove();
+          continue;
+        }
+        for (const attribute of [...element.attributes]) {
+          if (!allowedAttributes.has(attribute.name)) {
+            element.removeAttribute(attribute.name);
+          }
+        }
+        const href = element.getAttribute('href');
+        if (href && !href.startsWith('#')) {
+          if (!hasScheme(href)) {
+            // A relative link opens the file in the editor
+            element.dataset.file = href;
+          } else if (!/^(https?|mailto):/i.test(href)) {
+            element.removeAttribute('href');
+          }
+        }
+        const src = element.getAttribute('src');
+        if (src && !/^(https?|data):/i.test(src)) {
+          if (hasScheme(src)) {
+            element.removeAttribute('src');
+          } else {
+            element.setAttribute('src', new URL(src, baseUri + '/').href);
+          }
+        }
+      }
+      return template.innerHTML;
+    }
+
+    document.addEventListener('click', event => {
+      const link = event.target.closest('a[data-file]');
+      if (link) {
+        event.preventDefault();
+        vscode.postMessage({ command: 'openFile', file: link.dataset.file });
+        return;
+      }
+      const button = event.target.closest('button[data-command]');
+      if (button) {
+        vscode.postMessage({ command: button.dataset.command, script: button.dataset.script });
+      }
+    });
+    window.addEventListener('message', event => {
+      if (event.data.type === 'update') {
+        document.getElementById('description').innerHTML = sanitize(event.data.description, event.data.baseUri);
+        document.getElementById('scripts').innerHTML = event.data.scripts;
+      }
+    });
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+
+  private dispose(): void {
+    ProjectDashboardPanel.panels.delete(this.projectPath);
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Returns the folder of the full description of a project, which its relative links and images start from.
+ */
+function getDescriptionFolder(project: Project): string {
+  return project.fullDescriptionFile ? path.dirname(project.fullDescriptionFile) : project.path;
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectEditorService } from '../services/project-editor.service';
+import { ProjectService } from '../services/project.service';
+import { LoggingService } from '../services/logging.service';
+import { Project } from '../types';
+
+/**
+ * Asks for a project folder, a name and a group, and adds the project to projects.jsonc.
+ */
+export async function addProject(): Promise<void> {
+  const folders = await vscode.window.showOpenDialog({
+    title: 'ProDash: Add Project',
+    canSelectFolders: true,
+    canSelectFiles: false,
+    canSelectMany: false,
+    openLabel: 'Add Project',
+  });
+  if (!folders || folders.length === 0) {
+    return;
+  }
+  const projectPath = folders[0].fsPath;
+  const name = await promptForName('ProDash: Add Project', path.basename(projectPath));
+  const group = name && await pickGroup('ProDash: Add Project');
+  if (name && group) {
+    editProjects(() => ProjectEditorService.instance.addProject(name, projectPath, group));
+  }
+}
+
+/**
+ * Adds an unregistered workspace or a discovered project to projects.jsonc, with a name
+ * and a group chosen by the user.
+ * @param project The project to register; the current project if omitted.
+ */
+export async function registerProject(projectToRegister?: Project): Promise<void> {
+  const project = projectToRegister ?? ProjectService.instance.currentProject;
+  if (!project) {
+    vscode.window.showInformationMessage('ProDash: No project is open.');
+    return;
+  }
+  if (project.origin === 'configured') {
+    vscode.window.showInformationMessage(`ProDash: Project '${project.name}' is already configured in projects.jsonc.`);
+    return;
+  }
+  const title = `ProDash: Register ${project.name}`;
+  const name = await promptForName(title, project.name);
+  const group = name && await pickGroup(title, project.origin === 'discovered' ? project.group : undefined);
+  if (name && group) {
+    editProjects(() => ProjectEditorService.instance.addProject(name, project.path, group));
+  }
+}
+
+/**
+ * Asks for a new name of a project and renames it in projects.jsonc.
+ * @param project The project to rename.
+ */
+export async function renameProject(project: Project): Promise<void> {
+  const name = await promptForName(`ProDash: Rename ${project.name}`, project.name);
+  if (name && name !== project.name) {
+    editProjects(() => ProjectEditorService.instance.renameProject(project, name));
+  }
+}
+
+/**
+ * Asks for a group and moves a project to it in projects.jsonc.
+ * @param project The project to move.
+ */
+export async function moveProject(project: Project): Promise<void> {
+  const group = await pickGroup(`ProDash: Move ${project.name}`, undefined, project.group);
+  if (group && group !== project.group) {
+    editProjects(() => ProjectEditorService.instance.moveProject(project, group));
+  }
+}
+
+/**
+ * Removes a project from projects.jsonc after a confirmation. The project folder is not touched.
+ * @param project The project to remove.
+ */
+export async function removeProject(project: Project): Promise<void> {
+  const selection = await vscode.window.showWarningMessage(
+    `Remove project '${project.name}' from the dashboard? Its folder is not deleted.`,
+    { modal: true },
+    'Remove'
+  );
+  if (selection === 'Remove') {
+    editProjects(() => ProjectEditorService.instance.removeProject(project));
+  }
+}
+
+/**
+ * Makes an active project the current project, which commands without an explicit project
+ * apply to. Without a project, the user picks one of the active projects.
+ * @param projectToSelect The project to make current.
+ */
+export async function selectCurrentProject(projectToSelect?: Project): Promise<void> {
+  const activeProjects = ProjectService.instance.getProjects().filter(p => p.isActive);
+  if (activeProjects.length === 0) {
+    vscode.window.showInformationMessage('ProDash: No project is open.');
+    return;
+  }
+  const currentProject = ProjectService.instance.currentProject;
+  let project = projectToSelect;
+  if (!project) {
+    const items = activeProjects.map(p => ({
+      label: p.name,
+      description: p === currentProject ? '(current)' : p.group,
+      detail: p.path,
+      iconPath: new vscode.ThemeIcon(p === currentProject ? 'target' : 'repo'),
+      project: p,
+    }));
+    project = (await vscode.window.showQuickPick(items, { title: 'ProDash: Select Current Project', placeHolder: 'Select the project that commands apply to' }))?.project;
+  }
+  if (!project) {
+    return;
+  }
+  if (!project.isActive) {
+    vscode.window.showInformationMessage(`ProDash: Project '${project.name}' is not open in this window.`);
+    return;
+  }
+  await ProjectService.instance.selectCurrentProject(project);
+}
+
+async function promptForName(title: string, value: string): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    title,
+    prompt: 'The name of the project',
+    value,
+    validateInput: v => v.trim() ? undefined : 'The name must not be empty.',
+  });
+  return name?.trim();
+}
+
+/**
+ * Lets the user pick an existing group or enter a new one.
+ * @param title The title of the quick pick.
+ * @param suggestedGroup A group offered first, even if it does not exist yet.
+ * @param currentGroup The group of the project, which is not offered.
+ */
+async function pickGroup(title: string, suggestedGroup?: string, currentGroup?: string): Promise<string | undefined> {
+  let groups: string[];
+  try {
+    groups = ProjectEditorService.instance.getGroupNames();
+  } catch (error) {
+    showEditError(error);
+    return undefined;
+  }
+  if (suggestedGroup && !groups.includes(suggestedGroup)) {
+    groups.unshift(suggestedGroup);
+  }
+
+  const newGroupItem: vscode.QuickPickItem = { label: '$(add) New Group...', alwaysShow: true };
+  const items: vscode.QuickPickItem[] = [
+    ...groups.filter(g => g !== currentGroup).map(g => ({ label: g, iconPath: new vscode.ThemeIcon('folder') })),
+    newGroupItem,
+  ];
+  const selection = await vscode.window.showQuickPick(items, { title, placeHolder: 'Select a group' });
+  if (selection !== newGroupItem) {
+    return selection?.label;
+  }
+  const group = await vscode.window.showInputBox({
+    title,
+    prompt: 'The name of the new group',
+    validateInput: v => {
+      if (!v.trim()) {
+        return 'The name must not be empty.';
+      }
+      return v.trim().startsWith('_') ? 'Group names starting with an underscore are reserved for settings.' : undefined;
+    },
+  });
+  return group?.trim();
+}
+
+function editProjects(edit: () => void): void {
+  try {
+    edit();
+  } catch (error) {
+    showEditError(error);
+  }
+}
+
+function showEditError(error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  LoggingService.instance.logError(`Failed to change projects.jsonc: ${message}`, error);
+  vscode.window.showErrorMessage(`ProDash: ${message}`);
+}
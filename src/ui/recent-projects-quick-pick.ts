@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { FavoritesService } from '../services/favorites.service';
+import { Project } from '../types';
+
+interface ProjectQuickPickItem extends vscode.QuickPickItem {
+  project?: Project;
+}
+
+/**
+ * Shows the favorite and the recently opened projects in a quick pick and opens the selected
+ * project in the current window.
+ */
+export async function showRecentProjectsQuickPick(): Promise<void> {
+  const favorites = FavoritesService.instance.getFavorites();
+  const recentProjects = FavoritesService.instance.getRecentProjects()
+    .filter(r => !favorites.includes(r.project));
+  if (favorites.length === 0 && recentProjects.length === 0) {
+    vscode.window.showInformationMessage('ProDash: No projects have been opened yet.');
+    return;
+  }
+
+  const items: ProjectQuickPickItem[] = [];
+  if (favorites.length > 0) {
+    items.push({ label: 'Favorites', kind: vscode.QuickPickItemKind.Separator });
+    items.push(...favorites.map(project => ({
+      label: `$(star-full) ${project.name}`,
+      description: project.group,
+      detail: project.path,
+      project,
+    })));
+  }
+  if (recentProjects.length > 0) {
+    items.push({ label: 'Recent', kind: vscode.QuickPickItemKind.Separator });
+    items.push(...recentProjects.map(({ project, openedAt }) => ({
+      label: `$(repo) ${project.name}`,
+      description: `${project.group ?? ''} — ${new Date(openedAt).toLocaleString()}`,
+      detail: project.path,
+      project,
+    })));
+  }
+
+  const selection = await vscode.window.showQuickPick(items, {
+    title: 'ProDash: Open Recent Project',
+    placeHolder: 'Select a project to open',
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (selection?.project) {
+    await openProject(selection.project);
+  }
+}
+
+/**
+ * Records a project as recently opened and opens its folder in the current window.
+ * @param project The project to open.
+ */
+export async function openProject(project: Project): Promise<void> {
+  await FavoritesService.instance.recordOpened(project);
+  await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(project.path), false);
+}
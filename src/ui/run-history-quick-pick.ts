@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { RunHistoryService } from '../services/run-history.service';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { ScriptRun } from '../types';
+
+interface RunQuickPickItem extends vscode.QuickPickItem {
+  run: ScriptRun;
+}
+
+const statusIcons: Record<ScriptRun['status'], string> = {
+  running: '$(sync~spin)',
+  succeeded: '$(pass)',
+  failed: '$(error)',
+  cancelled: '$(circle-slash)',
+  unknown: '$(question)',
+};
+
+/**
+ * Shows the recorded script runs in a quick pick and offers actions for the selected run:
+ * run it again, copy its commands or open its log.
+ */
+export async function showRunHistoryQuickPick(): Promise<void> {
+  const runs = RunHistoryService.instance.getRuns();
+  if (runs.length === 0) {
+    vscode.window.showInformationMessage('ProDash: No scripts have been run yet.');
+    return;
+  }
+
+  const items: RunQuickPickItem[] = runs.map(run => ({
+    label: `${statusIcons[run.status]} ${run.scriptName}`,
+    description: `${run.projectName} — ${describeRunResult(run)}`,
+    detail: new Date(run.startTime).toLocaleString() + (run.invokedScriptName ? ` — dependency of "${run.invokedScriptName}"` : ''),
+    run,
+  }));
+  const selection = await vscode.window.showQuickPick(items, {
+    title: 'ProDash: Run History',
+    placeHolder: 'Select a run',
+    matchOnDescription: true,
+  });
+  if (!selection) {
+    return;
+  }
+
+  const run = selection.run;
+  const actions = [run.invokedScriptName ? `Re-run "${run.invokedScriptName}"` : 'Re-run', 'Copy Commands'];
+  if (run.logFile && fs.existsSync(run.logFile)) {
+    actions.push('Open Log');
+  }
+  const action = await vscode.window.showQuickPick(actions, { title: `${run.scriptName} (${run.projectName})` });
+  switch (action) {
+    case actions[0]:
+      await ScriptExecutionService.instance.rerun(run);
+      break;
+    case 'Copy Commands':
+      await vscode.env.clipboard.writeText(run.commands.join('\n'));
+      vscode.window.showInformationMessage(`ProDash: Copied the commands of "${run.scriptName}" to the clipboard.`);
+      break;
+    case 'Open Log':
+      await vscode.window.showTextDocument(vscode.Uri.file(run.logFile!));
+      break;
+  }
+}
+
+/**
+ * Returns a short text describing the status, exit code and duration of a run.
+ * @param run The recorded run.
+ */
+export function describeRunResult(run: ScriptRun): string {
+  const parts: string[] = [run.status];
+  if (run.exitCode !== undefined) {
+    parts.push(`exit code ${run.exitCode}`);
+  }
+  if (run.durationMs !== undefined) {
+    parts.push(`${(run.durationMs / 1000).toFixed(1)}s`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { ProjectService } from '../services/project.service';
+import { ScriptService } from '../services/script.service';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { Project, Script } from '../types';
+
+interface ScriptQuickPickItem extends vscode.QuickPickItem {
+  script?: Script;
+  project?: Project;
+}
+
+/**
+ * Shows the scripts of all projects in a quick pick, those of the current project first, and
+ * runs the selected script. The scripts can be searched by name, group and description.
+ * @param onlyProject The project to show the scripts of, instead of all projects.
+ */
+export async function showRunScriptQuickPick(onlyProject?: Project): Promise<void> {
+  const currentProject = ProjectService.instance.currentProject;
+  const projects = ProjectService.instance.getProjects();
+  const orderedProjects = onlyProject
+    ? [onlyProject]
+    : currentProject ? [currentProject, ...projects.filter(p => p !== currentProject)] : projects;
+
+  const items: ScriptQuickPickItem[] = [];
+  for (const project of orderedProjects) {
+    // Hidden scripts are only run by other scripts, like in the dashboard
+    const scripts = ScriptService.instance.getScripts(project.path)
+      .filter(s => !s.hidden && !s.name.startsWith('_') && ScriptExecutionService.instance.appliesTo(s, project));
+    if (scripts.length === 0) {
+      continue;
+    }
+    items.push({ label: project === currentProject ? `${project.name} (current)` : project.name, kind: vscode.QuickPickItemKind.Separator });
+    items.push(...scripts.map(script => ({
+      label: `${ScriptExecutionService.instance.isRunning(script, project) ? '$(sync~spin)' : script.isGlobal ? '$(globe)' : '$(play-circle)'} ${script.name}`,
+      description: [script.group || 'Uncategorized', project.name].join(' — '),
+      detail: script.description,
+      script,
+      project,
+    })));
+  }
+  if (items.length === 0) {
+    vscode.window.showInformationMessage('ProDash: No scripts found.');
+    return;
+  }
+
+  const selection = await vscode.window.showQuickPick(items, {
+    title: 'ProDash: Run Script',
+    placeHolder: 'Select a script to run',
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (selection?.script && selection.project) {
+    await ScriptExecutionService.instance.execute(selection.script, selection.project).catch(() => { /* Already reported by execute */ });
+  }
+}
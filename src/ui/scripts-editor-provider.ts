@@ -0,0 +1,280 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import { ProjectService } from '../services/project.service';
+import { ScriptService } from '../services/script.service';
+import { ScriptExecutionService } from '../services/script-execution.service';
+import { Project, Script } from '../types';
+import { getCommandNodes, getEntryNodes, getStringNodes } from '../utils/jsonc-utils';
+import { normalizePath } from '../utils/file-utils';
+import { proDashFolderName, scriptCommandProperties, scriptsJsoncFileName, scriptVariables } from '../constants';
+
+/**
+ * The document selector of the `scripts.jsonc` files of projects and of the global one.
+ */
+export const scriptsFileSelector: vscode.DocumentSelector = { scheme: 'file', pattern: `**/${proDashFolderName}/${scriptsJsoncFileName}` };
+
+/**
+ * Provides completion, hovers, definitions and references inside `scripts.jsonc` files:
+ * completion of `{{...}}` variables and of script names, hovers with the value a variable
+ * has for the project, and navigation between `{{RUN_SCRIPT:...}}` calls or `dependsOn`
+ * entries and the scripts they refer to.
+ */
+export class ScriptsEditorProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DefinitionProvider, vscode.ReferenceProvider {
+
+  /**
+   * Registers the provider for the `scripts.jsonc` files.
+   * @param context The VS Code extension context.
+   */
+  public static register(context: vscode.ExtensionContext): void {
+    const provider = new ScriptsEditorProvider();
+    context.subscriptions.push(
+      vscode.languages.registerCompletionItemProvider(scriptsFileSelector, provider, '{', ':'),
+      vscode.languages.registerHoverProvider(scriptsFileSelector, provider),
+      vscode.languages.registerDefinitionProvider(scriptsFileSelector, provider),
+      vscode.languages.registerReferenceProvider(scriptsFileSelector, provider),
+    );
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    const linePrefix = document.lineAt(position).text.substring(0, position.character);
+    const match = linePrefix.match(/\{\{([A-Za-z0-9_]*)(?::([^}]*))?$/);
+    if (!match) {
+      return undefined;
+    }
+    const [, variableName, argument] = match;
+    const closingBraces = document.lineAt(position).text.substring(position.character).startsWith('}}') ? '' : '}}';
+
+    if (argument === undefined) {
+      const range = new vscode.Range(position.translate(0, -variableName.length), position);
+      const builtInItems = Object.entries(scriptVariables).map(([name, variable]) => {
+        const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+        item.documentation = new vscode.MarkdownString(variable.description);
+        item.range = range;
+        if (variable.hasArgument) {
+          item.insertText = `${name}:`;
+          item.command = { command: 'editor.action.triggerSuggest', title: 'Suggest' };
+        } else {
+          item.insertText = `${name}${closingBraces}`;
+        }
+        return item;
+      });
+      const userVariables = this.getUserVariables(this.getScriptAt(document, position), this.getProject(document));
+      const userItems = Object.entries(userVariables).map(([name, { value, source }]) => {
+        const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Constant);
+        item.detail = source;
+        item.documentation = new vscode.MarkdownString().appendCodeblock(value);
+        item.range = range;
+        item.insertText = `${name}${closingBraces}`;
+        return item;
+      });
+      return [...userItems, ...builtInItems];
+    }
+
+    const range = new vscode.Range(position.translate(0, -argument.length), position);
+    const script = this.getScriptAt(document, position);
+    const project = this.getProject(document);
+    let items: vscode.CompletionItem[] = [];
+    switch (variableName) {
+      case 'RUN_SCRIPT':
+        items = this.getKnownScripts(document, project).map(s => {
+          const item = new vscode.CompletionItem(s.name, vscode.CompletionItemKind.Function);
+          item.detail = s.isGlobal ? 'global script' : s.group;
+          item.documentation = s.description;
+          return item;
+        });
+        break;
+      case 'INPUT':
+        items = (script?.inputs || []).map(i => {
+          const item = new vscode.CompletionItem(i.name, vscode.CompletionItemKind.Field);
+          item.detail = i.type || 'string';
+          item.documentation = i.description;
+          return item;
+        });
+        break;
+      case 'ENV':
+        items = Object.keys({ ...project?.env, ...script?.env }).map(name => new vscode.CompletionItem(name, vscode.CompletionItemKind.Constant));
+        break;
+    }
+    items.forEach(item => {
+      item.range = range;
+      item.insertText = `${item.label}${closingBraces}`;
+    });
+    return items;
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const range = document.getWordRangeAtPosition(position, /\{\{[A-Za-z_][A-Za-z0-9_]*(?::[^}]+)?\}\}/);
+    if (!range) {
+      return undefined;
+    }
+    const [, variableName, argument] = document.getText(range).match(/^\{\{([A-Za-z_][A-Za-z0-9_]*)(?::(.+))?\}\}$/)!;
+    const script = this.getScriptAt(document, position);
+    const project = this.getProject(document);
+    const userVariable = argument === undefined ? this.getUserVariables(script, project)[variableName] : undefined;
+    const variable = userVariable ? { description: `User-defined variable (${userVariable.source}).` } : scriptVariables[variableName];
+    if (!variable) {
+      return new vscode.Hover(`Unknown variable \`${variableName}\`. The script fails when it runs.`, range);
+    }
+
+    const markdown = new vscode.MarkdownString(variable.description);
+    if (variableName === 'RUN_SCRIPT') {
+      const target = argument ? this.getKnownScripts(document, project).find(s => s.name === argument) : undefined;
+      markdown.appendMarkdown(target ? `\n\n**${target.name}**${target.description ? `: ${target.description}` : ''}` : `\n\nScript \`${argument}\` not found.`);
+    } else if (variableName === 'INPUT') {
+      const input = script?.inputs?.find(i => i.name === argument);
+      markdown.appendMarkdown(input ? `\n\n**${input.name}** (${input.type || 'string'})${input.description ? `: ${input.description}` : ''}` : `\n\nThe script has no input \`${argument}\`.`);
+    } else if (script && project) {
+      const value = ScriptExecutionService.instance.previewVariable(variableName, argument, script, project);
+      markdown.appendMarkdown(value !== undefined
+        ? `\n\nValue for project **${project.name}**:`
+        : `\n\nNot set for project **${project.name}**.`);
+      if (value !== undefined) {
+        markdown.appendCodeblock(value);
+      }
+    }
+    return new vscode.Hover(markdown, range);
+  }
+
+  async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+    const scriptName = this.getScriptNameAt(document, position);
+    if (!scriptName) {
+      return undefined;
+    }
+    for (const uri of this.getRelatedFiles(document)) {
+      const relatedDocument = uri.toString() === document.uri.toString() ? document : await this.openDocument(uri);
+      const nameNode = relatedDocument && this.getEntries(relatedDocument)
+        .map(n => jsonc.findNodeAtLocation(n, ['name']))
+        .find(n => n?.value === scriptName);
+      if (relatedDocument && nameNode) {
+        return new vscode.Location(uri, this.getRange(relatedDocument, nameNode));
+      }
+    }
+    return undefined;
+  }
+
+  async provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext): Promise<vscode.Location[]> {
+    const scriptName = this.getScriptNameAt(document, position);
+    if (!scriptName) {
+      return [];
+    }
+    const locations: vscode.Location[] = [];
+    for (const uri of this.getRelatedFiles(document)) {
+      const relatedDocument = uri.toString() === document.uri.toString() ? document : await this.openDocument(uri);
+      if (!relatedDocument) {
+        continue;
+      }
+      for (const entry of this.getEntries(relatedDocument)) {
+        const nameNode = jsonc.findNodeAtLocation(entry, ['name']);
+        if (context.includeDeclaration && nameNode?.value === scriptName) {
+          locations.push(new vscode.Location(uri, this.getRange(relatedDocument, nameNode)));
+        }
+        for (const node of scriptCommandProperties.flatMap(p => getCommandNodes(entry, p))) {
+          for (const match of (node.value as string).matchAll(/\{\{RUN_SCRIPT:([^}]+)\}\}/g)) {
+            if (match[1] === scriptName) {
+              locations.push(new vscode.Location(uri, this.getRange(relatedDocument, node, 1 + match.index!, match[0].length)));
+            }
+          }
+        }
+        getStringNodes(entry, 'dependsOn')
+          .filter(n => n.value === scriptName)
+          .forEach(n => locations.push(new vscode.Location(uri, this.getRange(relatedDocument, n))));
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Returns the script name at a position: the target of a `{{RUN_SCRIPT:...}}` call,
+   * an entry of `dependsOn`, or the `name` of a script.
+   */
+  private getScriptNameAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const callRange = document.getWordRangeAtPosition(position, /\{\{RUN_SCRIPT:[^}]+\}\}/);
+    if (callRange) {
+      return document.getText(callRange).slice('{{RUN_SCRIPT:'.length, -2);
+    }
+
+    const root = jsonc.parseTree(document.getText());
+    const node = root && jsonc.findNodeAtOffset(root, document.offsetAt(position));
+    if (node?.type !== 'string') {
+      return undefined;
+    }
+    const property = node.parent?.type === 'property' ? node.parent : node.parent?.parent;
+    const propertyName = property?.type === 'property' ? property.children?.[0].value : undefined;
+    const isName = propertyName === 'name' && property?.children?.[1] === node;
+    const isDependency = propertyName === 'dependsOn' && node.parent?.type === 'array';
+    return isName || isDependency ? node.value : undefined;
+  }
+
+  /**
+   * Returns the script the position is in, as currently typed in the document.
+   */
+  private getScriptAt(document: vscode.TextDocument, position: vscode.Position): Script | undefined {
+    const offset = document.offsetAt(position);
+    const entry = this.getEntries(document).find(n => n.offset <= offset && offset < n.offset + n.length);
+    return entry ? jsonc.getNodeValue(entry) as Script : undefined;
+  }
+
+  /**
+   * Returns the user-defined variables available to a script, with where they are defined:
+   * the global `_variables`, overridden by the variables of the project and of the script.
+   */
+  private getUserVariables(script: Script | undefined, project: Project | undefined): Record<string, { value: string; source: string }> {
+    const variables: Record<string, { value: string; source: string }> = {};
+    const add = (values: Record<string, string> | undefined, source: string) => {
+      Object.entries(values || {}).forEach(([name, value]) => variables[name] = { value: String(value), source });
+    };
+    add(ProjectService.instance.variables, 'projects.jsonc');
+    add(project?.variables, project ? `project ${project.name}` : '');
+    add(script?.variables, script ? `script ${script.name}` : '');
+    return variables;
+  }
+
+  /**
+   * Returns the scripts that can be called from the document: those typed in the document,
+   * and the saved scripts of its project, including the global ones.
+   */
+  private getKnownScripts(document: vscode.TextDocument, project: Project | undefined): Script[] {
+    const documentScripts = this.getEntries(document).map(n => jsonc.getNodeValue(n) as Script).filter(s => typeof s.name === 'string');
+    const names = new Set(documentScripts.map(s => s.name));
+    const savedScripts = project ? ScriptService.instance.getScripts(project.path).filter(s => !names.has(s.name)) : [];
+    return [...documentScripts, ...savedScripts];
+  }
+
+  /**
+   * Returns the project a `scripts.jsonc` document belongs to. The global scripts file
+   * belongs to the current project.
+   */
+  private getProject(document: vscode.TextDocument): Project | undefined {
+    const filePath = normalizePath(document.uri.fsPath);
+    return ProjectService.instance.getProjects().find(p => normalizePath(ScriptService.instance.getScriptsFile(p.path)) === filePath)
+      ?? ProjectService.instance.currentProject;
+  }
+
+  /**
+   * Returns the files whose scripts can call each other with the scripts of the document:
+   * the document itself, then the global scripts file, or the scripts files of all projects
+   * if the document is the global scripts file.
+   */
+  private getRelatedFiles(document: vscode.TextDocument): vscode.Uri[] {
+    const globalScriptsFile = ScriptService.instance.globalScriptsFileNameAndPath;
+    const files = normalizePath(document.uri.fsPath) === normalizePath(globalScriptsFile)
+      ? ProjectService.instance.getProjects().map(p => ScriptService.instance.getScriptsFile(p.path))
+      : [globalScriptsFile];
+    const otherFiles = files.filter(f => normalizePath(f) !== normalizePath(document.uri.fsPath));
+    return [document.uri, ...new Set(otherFiles)].map(f => typeof f === 'string' ? vscode.Uri.file(f) : f);
+  }
+
+  private getEntries(document: vscode.TextDocument): jsonc.Node[] {
+    const root = jsonc.parseTree(document.getText());
+    return root ? getEntryNodes(root) : [];
+  }
+
+  private async openDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+    return fs.existsSync(uri.fsPath) ? vscode.workspace.openTextDocument(uri) : undefined;
+  }
+
+  private getRange(document: vscode.TextDocument, node: jsonc.Node, start = 0, length = node.length): vscode.Range {
+    return new vscode.Range(document.positionAt(node.offset + start), document.positionAt(node.offset + start + length));
+  }
+}
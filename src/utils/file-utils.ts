@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import * as vscode from 'vscode';
+import { parseEnvFile } from './parse-utils';
 
 /**
  * Normalizes a file path by replacing backslashes with forward slashes for consistent glob patterns.
@@ -24,6 +26,15 @@ export function isParentPathOf(parentPath: string, childPath: string): boolean {
   return (parent === child) || child.startsWith(parent + '/');
 }
 
+/**
+ * Replaces a leading `~` in a path with the home folder of the user.
+ * @param filePath The path to expand.
+ * @returns The expanded path.
+ */
+export function expandHomePath(filePath: string): string {
+  return /^~([\\/]|$)/.test(filePath) ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
 /**
  * Searches up the directory tree from startDir for a folder with the given name.
  * Returns the absolute path to the found folder, or undefined if not found.
@@ -86,6 +97,16 @@ export function readFileContents(filePath: string): string {
   return fileContents;
 }
 
+/**
+ * Reads a `.env` file and returns its variables, see {@link parseEnvFile}.
+ * Returns an empty object if the file does not exist.
+ * @param filePath The path to the .env file
+ * @returns The variables defined in the file
+ */
+export function readEnvFile(filePath: string): Record<string, string> {
+  return parseEnvFile(readFileContents(filePath));
+}
+
 /**
  * Opens the given file in a VS Code text editor if it exists, otherwise shows a warning.
  * 
@@ -0,0 +1,237 @@
+import * as jsonc from 'jsonc-parser';
+
+/**
+ * An entry (project or script) of a configuration file, with its location in the file.
+ */
+export interface JsoncEntry {
+  jsonPath: jsonc.JSONPath;
+  node: jsonc.Node;
+}
+
+/**
+ * Returns the entries (projects or scripts) of a configuration file, in both the flat and
+ * the grouped format. Groups whose name starts with an underscore hold settings and are skipped.
+ * @param root The root node of the parsed `projects.jsonc` or `scripts.jsonc` file.
+ * @returns The object entries with their JSON paths, in the order of the file.
+ */
+export function getEntries(root: jsonc.Node): JsoncEntry[] {
+  const groups: { groupPath: jsonc.JSONPath; node: jsonc.Node }[] = root.type === 'array'
+    ? [{ groupPath: [], node: root }]
+    : (root.children || [])
+      .filter(p => typeof p.children?.[0].value === 'string' && !p.children[0].value.startsWith('_') && p.children[1]?.type === 'array')
+      .map(p => ({ groupPath: [p.children![0].value], node: p.children![1] }));
+  return groups.flatMap(g => (g.node.children || [])
+    .map((node, index) => ({ jsonPath: [...g.groupPath, index], node }))
+    .filter(e => e.node.type === 'object'));
+}
+
+/**
+ * Returns the object nodes of the entries (projects or scripts) of a configuration file.
+ * @param root The root node of the parsed `projects.jsonc` or `scripts.jsonc` file.
+ * @see getEntries
+ */
+export function getEntryNodes(root: jsonc.Node): jsonc.Node[] {
+  return getEntries(root).map(e => e.node);
+}
+
+/**
+ * Returns the string nodes of a property that holds a string or an array of strings,
+ * like the commands of a script or its `dependsOn` list.
+ * @param entry The object node of the entry.
+ * @param property The name of the property.
+ */
+export function getStringNodes(entry: jsonc.Node, property: string): jsonc.Node[] {
+  const node = jsonc.findNodeAtLocation(entry, [property]);
+  const nodes = node?.type === 'array' ? node.children || [] : [node];
+  return nodes.filter((n): n is jsonc.Node => n?.type === 'string');
+}
+
+/**
+ * Returns the command string nodes of a command property of a script (`script`, `windows`,
+ * `linux` or `darwin`): plain commands as well as the `command` of conditional steps.
+ * @param entry The object node of the script.
+ * @param property The name of the property.
+ */
+export function getCommandNodes(entry: jsonc.Node, property: string): jsonc.Node[] {
+  return getStepNodes(entry, property)
+    .map(n => n.type === 'object' ? jsonc.findNodeAtLocation(n, ['command']) : n)
+    .filter((n): n is jsonc.Node => n?.type === 'string');
+}
+
+/**
+ * Returns the nodes of the steps of a command property of a script: the command strings
+ * and the objects of conditional steps.
+ * @param entry The object node of the script.
+ * @param property The name of the property.
+ */
+export function getStepNodes(entry: jsonc.Node, property: string): jsonc.Node[] {
+  const node = jsonc.findNodeAtLocation(entry, [property]);
+  const nodes = node?.type === 'array' ? node.children || [] : [node];
+  return nodes.filter((n): n is jsonc.Node => n?.type === 'string' || n?.type === 'object');
+}
+
+/**
+ * Parses a configuration file that is about to be edited.
+ * @param text The content of the file.
+ * @param fileName The name of the file, for the error message.
+ * @throws If the content has syntax errors, since editing it could make things worse.
+ */
+export function parseForEdit(text: string, fileName: string): jsonc.Node {
+  const errors: jsonc.ParseError[] = [];
+  const root = jsonc.parseTree(text, errors);
+  if (!root || errors.length > 0 || (root.type !== 'object' && root.type !== 'array')) {
+    throw new Error(`${fileName} has errors. Fix them before making changes.`);
+  }
+  return root;
+}
+
+/**
+ * Sets, inserts or removes a value in JSONC text. Only the inserted text is formatted, so the
+ * rest of the file keeps its comments and formatting; an empty document is formatted as a whole.
+ * @param text The JSONC text.
+ * @param jsonPath The path of the value; an index of -1 appends to an array.
+ * @param value The new value, or undefined to remove the value.
+ * @param isArrayInsertion Whether the value is inserted into an array instead of replacing an element.
+ * @returns The changed text.
+ */
+export function editJsonc(text: string, jsonPath: jsonc.JSONPath, value: unknown, isArrayInsertion = false): string {
+  const formattingOptions: jsonc.FormattingOptions = { insertSpaces: true, tabSize: 2, eol: text.includes('\r\n') ? '\r\n' : '\n' };
+  const isEmpty = jsonc.parseTree(text)?.children?.length === 0;
+  const edits = jsonc.modify(text, jsonPath, value, { isArrayInsertion });
+  let newText = jsonc.applyEdits(text, edits);
+  for (const edit of edits.filter(e => e.content)) {
+    const range = isEmpty ? undefined : { offset: edit.offset, length: edit.content.length };
+    newText = jsonc.applyEdits(newText, jsonc.format(newText, range, formattingOptions));
+  }
+  return newText;
+}
+
+/**
+ * Adds an entry to a group of a configuration file. In the grouped format, the group is
+ * created if it does not exist; in the flat format, the entry gets a `group` property.
+ * @param text The JSONC text.
+ * @param value The entry to add.
+ * @param group The group to add the entry to.
+ * @returns The changed text.
+ */
+export function addEntryToGroup(text: string, value: Record<string, unknown>, group: string): string {
+  const root = jsonc.parseTree(text);
+  if (root?.type === 'array') {
+    return editJsonc(text, [-1], { ...value, group }, true);
+  }
+  return root && jsonc.findNodeAtLocation(root, [group])
+    ? editJsonc(text, [group, -1], value, true)
+    : editJsonc(text, [group], [value]);
+}
+
+/**
+ * Moves an entry of a configuration file to another group. In the grouped format, the text of
+ * the entry is cut from its group together with the comments above and behind it, and appended
+ * to the other group, so its comments and formatting are kept; the group is created if it does
+ * not exist. In the flat format, the `group` property of the entry is changed.
+ * @param text The JSONC text.
+ * @param entry The entry to move.
+ * @param group The group to move the entry to.
+ * @returns The changed text.
+ */
+export function moveEntryToGroup(text: string, entry: JsoncEntry, group: string): string {
+  if (entry.jsonPath.length === 1) {
+    return editJsonc(text, [...entry.jsonPath, 'group'], group);
+  }
+  const { text: remainingText, elementText } = cutArrayElement(text, entry.node);
+  const root = jsonc.parseTree(remainingText);
+  const textWithGroup = root && jsonc.findNodeAtLocation(root, [group]) ? remainingText : editJsonc(remainingText, [group], []);
+  return appendToArray(textWithGroup, group, elementText);
+}
+
+/**
+ * Removes an element from its array and returns its text, including the comment lines above
+ * it and a comment behind it on the same line.
+ */
+function cutArrayElement(text: string, node: jsonc.Node): { text: string; elementText: string } {
+  const array = node.parent!;
+  const siblings = array.children || [];
+  const index = siblings.indexOf(node);
+  const end = node.offset + node.length;
+
+  // The element starts at the line after the comma or bracket before it, so that the
+  // comment lines above it move with it, but a comment behind the previous element does not
+  const previousComma = index > 0 ? findComma(text, siblings[index - 1].offset + siblings[index - 1].length) : -1;
+  const delimiter = index > 0 ? previousComma : array.offset;
+  const lineBreak = text.indexOf('\n', delimiter + 1);
+  const start = lineBreak >= 0 && lineBreak < node.offset ? lineBreak + 1 : node.offset;
+  const startsLine = start !== node.offset || /^[ \t]*$/.test(text.slice(text.lastIndexOf('\n', start - 1) + 1, start));
+
+  let cutEnd: number;
+  let trailingComment: string;
+  if (index < siblings.length - 1) {
+    const comma = findComma(text, end);
+    const rest = text.slice(comma + 1).match(/^[ \t]*(\/\/[^\r\n]*)?(\r?\n)?/)!;
+    trailingComment = rest[1] ?? '';
+    cutEnd = comma + 1 + (startsLine && rest[2] ? rest[0].length : rest[0].length - (rest[2]?.length ?? 0));
+  } else {
+    const rest = text.slice(end).match(/^[ \t]*(\/\/[^\r\n]*)?(\r?\n)?/)!;
+    trailingComment = rest[1] ?? '';
+    cutEnd = end + (startsLine && rest[2] ? rest[0].length : rest[0].length - (rest[2]?.length ?? 0));
+  }
+
+  const elementText = text.slice(start, end) + (trailingComment ? ` ${trailingComment}` : '');
+  let newText = text.slice(0, start) + text.slice(cutEnd);
+  if (index > 0 && index === siblings.length - 1) {
+    // The last element has no comma of its own; the one behind the previous element goes
+    newText = newText.slice(0, previousComma) + newText.slice(previousComma + 1);
+  }
+  return { text: newText, elementText };
+}
+
+/**
+ * Appends the text of an element to an array of a group, indented like the elements of the array.
+ */
+function appendToArray(text: string, group: string, elementText: string): string {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const array = jsonc.findNodeAtLocation(jsonc.parseTree(text)!, [group])!;
+  const children = array.children || [];
+  if (children.length === 0) {
+    const indentation = getIndentation(text, array.offset);
+    const content = `${eol}${reindent(elementText, `${indentation}  `)}${eol}${indentation}`;
+    return text.slice(0, array.offset + 1) + content + text.slice(array.offset + array.length - 1);
+  }
+
+  // Insert behind a comment after the last element, so that the comment stays with it
+  const last = children[children.length - 1];
+  const lastEnd = last.offset + last.length;
+  const insertAt = lastEnd + text.slice(lastEnd).match(/^[ \t]*(\/\/[^\r\n]*)?/)![0].length;
+  const hasComment = /\/\//.test(text.slice(lastEnd, insertAt));
+  const position = hasComment ? insertAt : lastEnd;
+  const element = `${eol}${reindent(elementText, getIndentation(text, last.offset))}`;
+  return `${text.slice(0, lastEnd)},${text.slice(lastEnd, position)}${element}${text.slice(position)}`;
+}
+
+/**
+ * Returns the offset of the comma that follows a position, skipping whitespace and comments.
+ */
+function findComma(text: string, offset: number): number {
+  const scanner = jsonc.createScanner(text, false);
+  scanner.setPosition(offset);
+  let token = scanner.scan();
+  while (token === jsonc.SyntaxKind.Trivia || token === jsonc.SyntaxKind.LineBreakTrivia
+    || token === jsonc.SyntaxKind.LineCommentTrivia || token === jsonc.SyntaxKind.BlockCommentTrivia) {
+    token = scanner.scan();
+  }
+  return token === jsonc.SyntaxKind.CommaToken ? scanner.getTokenOffset() : offset;
+}
+
+function getIndentation(text: string, offset: number): string {
+  return text.slice(text.lastIndexOf('\n', offset - 1) + 1).match(/^[ \t]*/)![0];
+}
+
+/**
+ * Replaces the indentation of the first line of a block of text, and the same indentation
+ * of the following lines, with another indentation.
+ */
+function reindent(block: string, indentation: string): string {
+  const current = block.match(/^[ \t]*/)![0];
+  return block.split('\n')
+    .map((line, i) => i === 0 || (current && line.startsWith(current)) ? indentation + line.slice(current.length) : line)
+    .join('\n');
+}
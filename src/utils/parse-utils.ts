@@ -0,0 +1,58 @@
+/**
+ * Reads the variables of the content of a `.env` file. Supports `#` comments, an optional
+ * `export` prefix and single- or double-quoted values.
+ * @param text The content of the file.
+ * @returns The variables defined in the file.
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*?)\s*$/);
+    if (!match) {
+      continue; // Empty line or comment
+    }
+    let value = match[2];
+    const quoted = value.match(/^(['"])(.*)\1$/);
+    if (quoted) {
+      value = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n') : quoted[2];
+    } else {
+      value = value.replace(/\s+#.*$/, ''); // Strip trailing comments of unquoted values
+    }
+    variables[match[1]] = value;
+  }
+  return variables;
+}
+
+/**
+ * Converts a glob pattern to a regular expression that matches paths with forward slashes.
+ * Supports `**` (any number of folders), `*` (any characters except a slash), `?` and `{a,b}`.
+ * @param glob The glob pattern.
+ * @returns A case-insensitive regular expression matching the whole path.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // '**/' also matches no folder at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
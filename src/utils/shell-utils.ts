@@ -0,0 +1,19 @@
+/**
+ * Returns the target folder of a command line that only changes the folder, like `cd src`,
+ * `cd "my folder"` or `cd /d C:\work`. Lines that do more than that, like `cd src && npm test`
+ * or `cd -`, are left to the shell.
+ * @param line The command line.
+ * @returns The folder, without quotes and not resolved yet, or undefined if the line is not a plain `cd`.
+ */
+export function parseChangeDirectory(line: string): string | undefined {
+  const match = line.match(/^\s*cd(?:\s+\/d)?\s+(.+?)\s*$/i);
+  if (!match) {
+    return undefined;
+  }
+  const quoted = match[1].match(/^(['"])([^'"]*)\1$/);
+  if (quoted) {
+    return quoted[2];
+  }
+  // Shell operators, quotes, variables or several arguments need the shell
+  return /^[^\s;&|<>'"`$()*?-][^\s;&|<>'"`$()*?]*$/.test(match[1]) ? match[1] : undefined;
+}
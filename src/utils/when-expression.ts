@@ -0,0 +1,266 @@
+import { WhenExpressionError } from '../errors';
+
+/**
+ * The facts a `when` expression is evaluated against.
+ */
+export interface WhenContext {
+  /** The operating system: `windows`, `linux` or `darwin`. */
+  os: string;
+  /** The current git branch of the project, or an empty string. */
+  branch: string;
+  /** Returns whether a file or folder exists, relative to the project folder. */
+  exists(relativePath: string): boolean;
+  /** Returns an environment variable of the run. */
+  env(name: string): string | undefined;
+  /** Returns the value of a user-defined or built-in variable. */
+  variable(name: string): string | undefined;
+}
+
+type Operand =
+  | { kind: 'os' | 'branch' }
+  | { kind: 'env' | 'var'; name: string }
+  | { kind: 'exists'; path: string }
+  | { kind: 'literal'; value: string }
+  | { kind: 'regex'; regex: RegExp };
+
+/**
+ * A parsed `when` expression.
+ */
+export type WhenExpression =
+  | { kind: 'or' | 'and'; left: WhenExpression; right: WhenExpression }
+  | { kind: 'not'; operand: WhenExpression }
+  | { kind: 'compare'; operator: '==' | '!=' | '=~'; left: Operand; right: Operand }
+  | { kind: 'value'; operand: Operand };
+
+interface Token {
+  type: 'word' | 'string' | 'regex' | 'operator' | 'end';
+  text: string;
+  value: string;
+  offset: number;
+}
+
+const knownNames = 'os, branch, env.NAME, var.NAME or exists(\'path\')';
+
+/**
+ * Parses a `when` expression, like `os == windows && exists('package.json')`.
+ *
+ * Operands are `os`, `branch`, `env.NAME`, `var.NAME`, `exists('path')` and quoted strings.
+ * They can be compared with `==`, `!=` and `=~` (a regular expression like `/^release\//`),
+ * where the right side may also be an unquoted word, and combined with `!`, `&&`, `||` and
+ * parentheses. An operand on its own is true if it is a non-empty string or an existing path.
+ * @param expression The expression.
+ * @returns The parsed expression, to be evaluated with {@link evaluateWhenExpression}.
+ * @throws WhenExpressionError if the expression has a syntax error.
+ */
+export function parseWhenExpression(expression: string): WhenExpression {
+  const tokens = tokenize(expression);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new WhenExpressionError(message, token.offset, Math.max(token.text.length, 1));
+  };
+  const expect = (text: string) => {
+    if (peek().text !== text) {
+      fail(peek().type === 'end' ? `Expected "${text}" at the end.` : `Expected "${text}" instead of "${peek().text}".`);
+    }
+    next();
+  };
+
+  const parseOperand = (isRightSide: boolean): Operand => {
+    const token = next();
+    switch (token.type) {
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'regex':
+        if (!isRightSide) {
+          return fail('A regular expression can only follow "=~".', token);
+        }
+        try {
+          const flags = token.text.slice(token.text.lastIndexOf('/') + 1);
+          return { kind: 'regex', regex: new RegExp(token.value, flags) };
+        } catch (error) {
+          return fail(`Invalid regular expression ${token.text}.`, token);
+        }
+      case 'word':
+        break;
+      default:
+        return fail(token.type === 'end' ? 'The expression ends unexpectedly.' : `Unexpected "${token.text}".`, token);
+    }
+
+    const word = token.text;
+    if (word === 'os' || word === 'branch') {
+      return { kind: word };
+    }
+    const prefixMatch = word.match(/^(env|var)\.(.*)$/);
+    if (prefixMatch) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefixMatch[2])) {
+        return fail(`Invalid variable name in "${word}".`, token);
+      }
+      return { kind: prefixMatch[1] as 'env' | 'var', name: prefixMatch[2] };
+    }
+    if (word === 'exists' && peek().text === '(') {
+      next();
+      const pathToken = next();
+      if (pathToken.type !== 'string') {
+        return fail('exists() expects a quoted path, like exists(\'package.json\').', pathToken);
+      }
+      expect(')');
+      return { kind: 'exists', path: pathToken.value };
+    }
+    if (isRightSide) {
+      return { kind: 'literal', value: word };
+    }
+    return fail(`Unknown name "${word}". Use ${knownNames}, or quote a literal value.`, token);
+  };
+
+  const parseComparison = (): WhenExpression => {
+    const left = parseOperand(false);
+    const operator = peek().text;
+    if (operator !== '==' && operator !== '!=' && operator !== '=~') {
+      return { kind: 'value', operand: left };
+    }
+    next();
+    const rightToken = peek();
+    const right = parseOperand(true);
+    if (operator === '=~' && right.kind === 'literal') {
+      try {
+        return { kind: 'compare', operator, left, right: { kind: 'regex', regex: new RegExp(right.value) } };
+      } catch (error) {
+        return fail(`Invalid regular expression ${rightToken.text}.`, rightToken);
+      }
+    }
+    return { kind: 'compare', operator, left, right };
+  };
+
+  const parseUnary = (): WhenExpression => {
+    if (peek().text === '!') {
+      next();
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (peek().text === '(') {
+      next();
+      const inner = parseOr();
+      expect(')');
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): WhenExpression => {
+    let left = parseUnary();
+    while (peek().text === '&&') {
+      next();
+      left = { kind: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): WhenExpression => {
+    let left = parseAnd();
+    while (peek().text === '||') {
+      next();
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  if (peek().type === 'end') {
+    fail('The expression is empty.');
+  }
+  const result = parseOr();
+  if (peek().type !== 'end') {
+    fail(`Unexpected "${peek().text}".`);
+  }
+  return result;
+}
+
+/**
+ * Evaluates a parsed `when` expression.
+ * @param expression The parsed expression.
+ * @param context The facts to evaluate the expression against.
+ * @returns Whether the condition holds.
+ */
+export function evaluateWhenExpression(expression: WhenExpression, context: WhenContext): boolean {
+  switch (expression.kind) {
+    case 'or':
+      return evaluateWhenExpression(expression.left, context) || evaluateWhenExpression(expression.right, context);
+    case 'and':
+      return evaluateWhenExpression(expression.left, context) && evaluateWhenExpression(expression.right, context);
+    case 'not':
+      return !evaluateWhenExpression(expression.operand, context);
+    case 'value': {
+      const value = getValue(expression.operand, context);
+      return typeof value === 'boolean' ? value : value !== '';
+    }
+    case 'compare': {
+      const left = String(getValue(expression.left, context));
+      if (expression.operator === '=~') {
+        if (expression.right.kind === 'regex') {
+          return expression.right.regex.test(left);
+        }
+        // The pattern comes from a variable, so it is only known now
+        try {
+          return new RegExp(String(getValue(expression.right, context))).test(left);
+        } catch (error) {
+          return false;
+        }
+      }
+      const right = String(getValue(expression.right, context));
+      return expression.operator === '==' ? left === right : left !== right;
+    }
+  }
+}
+
+function getValue(operand: Operand, context: WhenContext): string | boolean {
+  switch (operand.kind) {
+    case 'os':
+      return context.os;
+    case 'branch':
+      return context.branch;
+    case 'env':
+      return context.env(operand.name) ?? '';
+    case 'var':
+      return context.variable(operand.name) ?? '';
+    case 'exists':
+      return context.exists(operand.path);
+    case 'literal':
+      return operand.value;
+    case 'regex':
+      return operand.regex.source;
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  while (offset < expression.length) {
+    const rest = expression.slice(offset);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      offset += whitespace[0].length;
+      continue;
+    }
+
+    const operator = rest.match(/^(&&|\|\||==|!=|=~|!|\(|\))/);
+    const quoted = rest.match(/^(['"])((?:\\.|(?!\1).)*)\1/);
+    const regex = rest.match(/^\/((?:\\.|[^/\\])+)\/([a-z]*)/);
+    const word = rest.match(/^[A-Za-z0-9_.\-][A-Za-z0-9_.\-/]*/);
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator[0], value: operator[0], offset });
+    } else if (quoted) {
+      tokens.push({ type: 'string', text: quoted[0], value: quoted[2].replace(/\\(.)/g, '$1'), offset });
+    } else if (regex) {
+      tokens.push({ type: 'regex', text: regex[0], value: regex[1], offset });
+    } else if (word) {
+      tokens.push({ type: 'word', text: word[0], value: word[0], offset });
+    } else if (rest[0] === '\'' || rest[0] === '"') {
+      throw new WhenExpressionError('Unterminated string.', offset, rest.length);
+    } else {
+      throw new WhenExpressionError(`Unexpected character "${rest[0]}".`, offset, 1);
+    }
+    offset += tokens[tokens.length - 1].text.length;
+  }
+  tokens.push({ type: 'end', text: '', value: '', offset: expression.length });
+  return tokens;
+}